@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import { type Command, CommandStack } from '../command'
+
+/** 记录执行和撤销顺序的操作 */
+function recorder(log: string[], name: string): Command {
+  return {
+    do: () => log.push(`do ${name}`),
+    undo: () => log.push(`undo ${name}`)
+  }
+}
+
+/** 与 `Paper.transaction` 相同的用法，回调抛出异常时回滚 */
+function transaction(stack: CommandStack, callback: () => void): void {
+  stack.begin()
+  try {
+    callback()
+  } catch (error) {
+    stack.rollback()
+    throw error
+  }
+  stack.commit()
+}
+
+describe('CommandStack', () => {
+  it('undoes and redoes in order', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    expect(stack.canUndo).toBe(true)
+    expect(stack.canRedo).toBe(false)
+
+    expect(stack.undo()).toBe(true)
+    expect(stack.undo()).toBe(true)
+    expect(stack.undo()).toBe(false)
+    expect(stack.canRedo).toBe(true)
+    expect(stack.redo()).toBe(true)
+    expect(log).toEqual(['do a', 'do b', 'undo b', 'undo a', 'do a'])
+  })
+
+  it('records pushed commands without executing them', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.push(recorder(log, 'a'))
+    expect(log).toEqual([])
+    stack.undo()
+    expect(log).toEqual(['undo a'])
+  })
+
+  it('clears the redo history when a new command is recorded', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.execute(recorder(log, 'a'))
+    stack.undo()
+    stack.execute(recorder(log, 'b'))
+    expect(stack.canRedo).toBe(false)
+    expect(stack.redo()).toBe(false)
+  })
+
+  it('merges a committed transaction into one undo step', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.begin()
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    expect(stack.inTransaction).toBe(true)
+    expect(stack.canUndo).toBe(false)
+    expect(stack.undo()).toBe(false)
+    stack.commit()
+
+    expect(stack.inTransaction).toBe(false)
+    expect(stack.undo()).toBe(true)
+    expect(stack.canUndo).toBe(false)
+    expect(stack.redo()).toBe(true)
+    expect(log).toEqual(['do a', 'do b', 'undo b', 'undo a', 'do a', 'do b'])
+  })
+
+  it('records nothing for an empty transaction', () => {
+    const stack = new CommandStack()
+    stack.begin()
+    stack.commit()
+    expect(stack.canUndo).toBe(false)
+  })
+
+  it('merges nested transactions into the outermost one', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.begin()
+    stack.execute(recorder(log, 'a'))
+    stack.begin()
+    stack.execute(recorder(log, 'b'))
+    stack.commit()
+    expect(stack.inTransaction).toBe(true)
+    stack.execute(recorder(log, 'c'))
+    stack.commit()
+
+    stack.undo()
+    expect(stack.canUndo).toBe(false)
+    expect(log.slice(3)).toEqual(['undo c', 'undo b', 'undo a'])
+  })
+
+  it('ignores commit and rollback outside a transaction', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.execute(recorder(log, 'a'))
+    stack.commit()
+    stack.rollback()
+    expect(log).toEqual(['do a'])
+    expect(stack.canUndo).toBe(true)
+  })
+
+  it('rolls back executed commands in reverse order', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.execute(recorder(log, 'before'))
+    stack.begin()
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    stack.rollback()
+
+    expect(stack.inTransaction).toBe(false)
+    expect(log).toEqual(['do before', 'do a', 'do b', 'undo b', 'undo a'])
+
+    // 回滚不影响事务之前的操作
+    stack.undo()
+    expect(log.pop()).toBe('undo before')
+    expect(stack.canUndo).toBe(false)
+  })
+
+  it('rolls back when a transaction callback throws', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    const error = new Error('failed')
+    expect(() => transaction(stack, () => {
+      stack.execute(recorder(log, 'a'))
+      stack.execute(recorder(log, 'b'))
+      throw error
+    })).toThrow(error)
+
+    expect(log).toEqual(['do a', 'do b', 'undo b', 'undo a'])
+    expect(stack.inTransaction).toBe(false)
+    expect(stack.canUndo).toBe(false)
+  })
+
+  it('rolls back the outermost transaction when a nested callback throws', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    expect(() => transaction(stack, () => {
+      stack.execute(recorder(log, 'outer'))
+      transaction(stack, () => {
+        stack.execute(recorder(log, 'inner'))
+        throw new Error('failed')
+      })
+    })).toThrow('failed')
+
+    expect(log).toEqual(['do outer', 'do inner', 'undo inner', 'undo outer'])
+    expect(stack.inTransaction).toBe(false)
+    expect(stack.canUndo).toBe(false)
+  })
+
+  it('drops the oldest commands beyond maxDepth', () => {
+    const log: string[] = []
+    const stack = new CommandStack(2)
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    stack.execute(recorder(log, 'c'))
+    while (stack.undo());
+    expect(log.slice(3)).toEqual(['undo c', 'undo b'])
+  })
+
+  it('trims the undo history when maxDepth shrinks', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    for (const name of ['a', 'b', 'c', 'd']) stack.execute(recorder(log, name))
+    stack.maxDepth = 1
+    expect(stack.maxDepth).toBe(1)
+    while (stack.undo());
+    expect(log.slice(4)).toEqual(['undo d'])
+  })
+
+  it('normalizes maxDepth to at least 1', () => {
+    expect(new CommandStack(0).maxDepth).toBe(1)
+    expect(new CommandStack(2.7).maxDepth).toBe(2)
+    expect(new CommandStack(NaN).maxDepth).toBe(Infinity)
+    expect(new CommandStack().maxDepth).toBe(Infinity)
+  })
+
+  it('counts a committed transaction as one step towards maxDepth', () => {
+    const log: string[] = []
+    const stack = new CommandStack(1)
+    stack.begin()
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    stack.commit()
+    stack.undo()
+    expect(log.slice(2)).toEqual(['undo b', 'undo a'])
+  })
+
+  it('clears both histories and abandons an open transaction', () => {
+    const log: string[] = []
+    const stack = new CommandStack()
+    stack.execute(recorder(log, 'a'))
+    stack.execute(recorder(log, 'b'))
+    stack.undo()
+    stack.begin()
+    stack.clear()
+    expect(stack.canUndo).toBe(false)
+    expect(stack.canRedo).toBe(false)
+    expect(stack.inTransaction).toBe(false)
+  })
+})
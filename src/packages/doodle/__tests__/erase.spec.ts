@@ -0,0 +1,101 @@
+import { createCanvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import { type BrushConfigs, BrushHistory, BrushType, type EraseMode, TimePoint } from '../brush'
+import { VectorEraser } from '../erase'
+
+const MARKING: BrushConfigs = {
+  type: BrushType.marking, color: 0x112233, alpha: 1, size: 2, cap: 'round', join: 'round', blendMode: 'source-over'
+}
+
+/** 创建点，时间为横纵坐标之和 */
+function point(x: number, y: number): TimePoint {
+  return new TimePoint(x, y, x + y, 0)
+}
+
+/** 横坐标 0 ~ 100、间隔 10 的水平笔迹 */
+function line(y: number = 10, configs: BrushConfigs = MARKING): BrushHistory {
+  const points = Array.from({ length: 11 }, (_, i) => point(i * 10, y))
+  return new BrushHistory({ ...configs }, points, 'layer-1')
+}
+
+/** 竖直的橡皮擦 */
+function eraser(x: number, size: number, mode?: EraseMode): VectorEraser {
+  const configs = { ...MARKING, type: BrushType.eraser, size, blendMode: 'destination-out' as const, eraseMode: mode }
+  const canvas = createCanvas(100, 100).getContext('2d') as unknown as CanvasRenderingContext2D
+  return new VectorEraser(new BrushHistory(configs, [point(x, 0), point(x, 20)]), canvas)
+}
+
+/** 笔迹各点的横坐标 */
+function xs(history: BrushHistory): number[] {
+  return history.points.map(x => x.x)
+}
+
+describe('VectorEraser', () => {
+  it('ignores strokes it does not touch', () => {
+    expect(eraser(50, 4, 'stroke').erase(line(30))).toBeUndefined()
+    expect(eraser(50, 4, 'split').erase(line(30))).toBeUndefined()
+  })
+
+  it('reaches strokes within half of both widths', () => {
+    const wide = { ...MARKING, size: 10 }
+    expect(eraser(50, 4, 'stroke').erase(line(26, wide))).toEqual([])
+    expect(eraser(50, 4, 'stroke').erase(line(28, wide))).toBeUndefined()
+  })
+
+  it('ignores pixel eraser strokes', () => {
+    const pixel = line(10, { ...MARKING, type: BrushType.eraser, blendMode: 'destination-out', eraseMode: 'pixel' })
+    expect(eraser(50, 4, 'stroke').erase(pixel)).toBeUndefined()
+  })
+
+  it('removes touched strokes in stroke mode', () => {
+    expect(eraser(50, 4, 'stroke').erase(line())).toEqual([])
+  })
+
+  it('removes touched strokes when the mode is empty', () => {
+    expect(eraser(50, 4).erase(line())).toEqual([])
+  })
+
+  describe('split mode', () => {
+    it('removes the points under the eraser and repeats the new end points', () => {
+      const history = line()
+      history.text = 'note'
+      const pieces = eraser(50, 4, 'split').erase(history)!
+      expect(pieces.map(xs)).toEqual([[0, 10, 20, 30, 40, 40], [60, 60, 70, 80, 90, 100]])
+      for (const piece of pieces) {
+        expect(piece.configs).toEqual(history.configs)
+        expect(piece.configs).not.toBe(history.configs)
+        expect(piece.layer).toBe('layer-1')
+        expect(piece.text).toBe('note')
+      }
+    })
+
+    it('breaks segments that cross the eraser between two points', () => {
+      const pieces = eraser(45, 2, 'split').erase(line())!
+      expect(pieces.map(xs)).toEqual([[0, 10, 20, 30, 40, 40], [50, 50, 60, 70, 80, 90, 100]])
+    })
+
+    it('drops pieces that are too short to draw', () => {
+      const pieces = eraser(10, 4, 'split').erase(line())!
+      expect(pieces.map(xs)).toEqual([[20, 20, 30, 40, 50, 60, 70, 80, 90, 100]])
+    })
+
+    it('removes text as a whole', () => {
+      const text = new BrushHistory({ ...MARKING, type: BrushType.text, size: 16 }, [point(40, 5)])
+      text.text = 'hello'
+      expect(eraser(42, 4, 'split').erase(text)).toEqual([])
+    })
+
+    it('removes fills as a whole', () => {
+      const fill = new BrushHistory({ ...MARKING, type: BrushType.fill }, [point(50, 10)])
+      fill.mask = { x: 0, y: 0, width: 100, height: 100, runs: [0, 10000] }
+      expect(eraser(50, 4, 'split').erase(fill)).toEqual([])
+    })
+
+    it.each([
+      BrushType.line, BrushType.arrow, BrushType.rectangle, BrushType.ellipse
+    ])('removes %s shapes as a whole', type => {
+      const shape = new BrushHistory({ ...MARKING, type, fill: false }, [point(30, 5), point(70, 15)])
+      expect(eraser(50, 4, 'split').erase(shape)).toEqual([])
+    })
+  })
+})
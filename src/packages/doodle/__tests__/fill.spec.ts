@@ -0,0 +1,151 @@
+import { createCanvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import { type FillMask, fillMask, floodFill } from '../fill'
+
+/** 像素颜色，`#` 为黑色，`g` 为灰色，其余为白色 */
+const COLORS: Record<string, number[]> = {
+  '#': [0, 0, 0, 255],
+  'g': [200, 200, 200, 255],
+  '.': [255, 255, 255, 255]
+}
+
+/** 根据字符画创建像素，每行字符数相同 */
+function image(...rows: string[]): ImageData {
+  const width = rows[0].length, height = rows.length
+  const data = new Uint8ClampedArray(width * height * 4)
+  rows.forEach((row, y) => {
+    [...row].forEach((pixel, x) => data.set(COLORS[pixel], (y * width + x) * 4))
+  })
+  return { width, height, data, colorSpace: 'srgb' } as ImageData
+}
+
+/** 记录 `rect` 调用的画布 */
+function recordRects(mask: FillMask): number[][] {
+  const rects: number[][] = []
+  const canvas = { rect: (...args: number[]) => rects.push(args) }
+  fillMask(canvas as unknown as CanvasRenderingContext2D, mask)
+  return rects
+}
+
+/** 中间留有一个像素的封闭方框 */
+const RING = image(
+  '.....',
+  '.###.',
+  '.#.#.',
+  '.###.',
+  '.....'
+)
+
+/** 右侧边界在第 3 行留有缺口的方框 */
+const OPEN_BOX = image(
+  '.......',
+  '.#####.',
+  '.#...#.',
+  '.#.....',
+  '.#...#.',
+  '.#####.',
+  '.......'
+)
+
+describe('floodFill', () => {
+  it('fills the whole image when there is no boundary', () => {
+    const mask = floodFill(image('....', '....', '....'), 1, 1, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 4, height: 3, runs: [0, 12] })
+  })
+
+  it('spreads the region one pixel over the boundary', () => {
+    const mask = floodFill(RING, 2, 2, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 1, y: 1, width: 3, height: 3, runs: [0, 9] })
+  })
+
+  it('encodes holes as unfilled runs inside the bounding box', () => {
+    const mask = floodFill(RING, 0, 0, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 5, height: 5, runs: [0, 12, 1, 12] })
+  })
+
+  it('starts the runs with the unfilled pixels in the top left corner', () => {
+    const mask = floodFill(image('###..', '###..', '.....'), 4, 2, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 5, height: 3, runs: [2, 13] })
+  })
+
+  it('limits the bounding box to the filled region', () => {
+    const mask = floodFill(image('..##', '..##', '####', '####'), 0, 0, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 3, height: 3, runs: [0, 9] })
+  })
+
+  it('treats pixels within the tolerance as the same region', () => {
+    const row = image('..g..')
+    expect(floodFill(row, 0, 0, { tolerance: 0, gapSize: 0 })).toEqual(
+      { x: 0, y: 0, width: 3, height: 1, runs: [0, 3] }
+    )
+    expect(floodFill(row, 0, 0, { tolerance: 55, gapSize: 0 })).toEqual(
+      { x: 0, y: 0, width: 5, height: 1, runs: [0, 5] }
+    )
+    expect(floodFill(row, 0, 0, { tolerance: -10, gapSize: 0 })).toEqual(
+      { x: 0, y: 0, width: 3, height: 1, runs: [0, 3] }
+    )
+  })
+
+  it('leaks through gaps when gap closing is disabled', () => {
+    const mask = floodFill(OPEN_BOX, 3, 3, { tolerance: 0, gapSize: 0 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 7, height: 7, runs: [0, 49] })
+  })
+
+  it('closes gaps smaller than the gap size and restores the original boundary', () => {
+    const mask = floodFill(OPEN_BOX, 3, 3, { tolerance: 0, gapSize: 2 })
+    expect(mask).toEqual({ x: 1, y: 1, width: 5, height: 5, runs: [0, 25] })
+  })
+
+  it('ignores the gap size when the seed lies inside the thickened boundary', () => {
+    const mask = floodFill(OPEN_BOX, 2, 2, { tolerance: 0, gapSize: 2 })
+    expect(mask).toEqual({ x: 0, y: 0, width: 7, height: 7, runs: [0, 49] })
+  })
+
+  it('floors fractional seeds', () => {
+    expect(floodFill(RING, 2.9, 2.9, { tolerance: 0, gapSize: 0 })).toEqual(
+      floodFill(RING, 2, 2, { tolerance: 0, gapSize: 0 })
+    )
+  })
+
+  it.each([
+    [-1, 0],
+    [0, -0.5],
+    [5, 0],
+    [0, 5]
+  ])('returns undefined for the seed (%s, %s) outside the image', (x, y) => {
+    expect(floodFill(RING, x, y, { tolerance: 0, gapSize: 0 })).toBeUndefined()
+  })
+})
+
+describe('fillMask', () => {
+  it('draws each run as one rectangle per row', () => {
+    const mask = { x: 10, y: 20, width: 3, height: 2, runs: [1, 4, 1] }
+    expect(recordRects(mask)).toEqual([
+      [11, 20, 2, 1],
+      [10, 21, 2, 1]
+    ])
+  })
+
+  it('skips unfilled runs', () => {
+    const mask = floodFill(RING, 0, 0, { tolerance: 0, gapSize: 0 })!
+    expect(recordRects(mask)).toEqual([
+      [0, 0, 5, 1],
+      [0, 1, 5, 1],
+      [0, 2, 2, 1],
+      [3, 2, 2, 1],
+      [0, 3, 5, 1],
+      [0, 4, 5, 1]
+    ])
+  })
+
+  it('paints the filled pixels on a canvas', () => {
+    const mask = floodFill(RING, 0, 0, { tolerance: 0, gapSize: 0 })!
+    const canvas = (createCanvas(5, 5) as unknown as HTMLCanvasElement).getContext('2d')!
+    canvas.beginPath()
+    fillMask(canvas, mask)
+    canvas.fill()
+    const alpha = Array.from(canvas.getImageData(0, 0, 5, 5).data).filter((_, i) => i % 4 === 3)
+    expect(alpha.filter(x => x === 255)).toHaveLength(24)
+    expect(alpha[2 * 5 + 2]).toBe(0)
+  })
+})
@@ -0,0 +1,59 @@
+import { createCanvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import { BrushHistory, BrushType, TimePoint } from '../brush'
+import { Layer } from '../layer'
+
+const SIZE = 16
+
+/** 使用 `@napi-rs/canvas` 创建画布 */
+function createElement(): HTMLCanvasElement {
+  return createCanvas(SIZE, SIZE) as unknown as HTMLCanvasElement
+}
+
+/** 创建默认配置的图层 */
+function createLayer(): Layer {
+  const configs = { id: 'default', name: 'Default', visible: true, opacity: 1, blendMode: 'normal' as const }
+  return new Layer(configs, createElement(), createElement())
+}
+
+/** 横穿画布中间的荧光笔 */
+function highlighter(): BrushHistory {
+  const configs = {
+    type: BrushType.highlighter, color: 0xFFEB3B, alpha: 0.6, size: 8,
+    cap: 'round' as const, join: 'round' as const, blendMode: 'multiply' as const
+  }
+  const points = [0, 4, 8, 12, 16].map((x, i) => new TimePoint(x, SIZE / 2, i * 16, 0))
+  return new BrushHistory(configs, points)
+}
+
+/** 在底色上导出图层，返回画布中心的像素 */
+function exportPixel(layer: Layer, base: string): number[] {
+  const target = createElement().getContext('2d')!
+  target.fillStyle = base
+  target.fillRect(0, 0, SIZE, SIZE)
+  layer.drawTo(target)
+  return Array.from(target.getImageData(SIZE / 2, SIZE / 2, 1, 1).data)
+}
+
+describe('Layer', () => {
+  it('multiplies highlighter strokes with a dark base image on export', () => {
+    const layer = createLayer()
+    layer.replay(highlighter())
+
+    // 正片叠底后暗色底图保持暗色，普通混合时红色通道约为 169
+    const [r, g, b] = exportPixel(layer, 'rgb(40, 40, 40)')
+    expect(r).toBeLessThanOrEqual(41)
+    expect(g).toBeLessThanOrEqual(41)
+    expect(b).toBeLessThan(30)
+  })
+
+  it('tints a light base image with the highlighter color', () => {
+    const layer = createLayer()
+    layer.replay(highlighter())
+
+    const [r, g, b] = exportPixel(layer, 'rgb(255, 255, 255)')
+    expect(r).toBeGreaterThanOrEqual(254)
+    expect(g).toBeGreaterThan(240)
+    expect(b).toBeLessThan(150)
+  })
+})
@@ -0,0 +1,259 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { BrushHistory, MarkingBrush, registerBrush, TimePoint, unregisterBrush } from '../brush'
+import type { PaperHistory } from '../paper'
+import {
+  assertBrushTypes,
+  deserializeHistory,
+  HISTORY_VERSION,
+  serializeHistory,
+  type SerializedPaperHistory
+} from '../serializer'
+
+const CONFIGS = {
+  type: 'marking', color: 0x0E9C4B, alpha: 1, size: 8, cap: 'round', join: 'round', blendMode: 'source-over'
+}
+
+/** 构造只有一笔的序列化数据，可以覆盖根节点、历史记录和画笔配置的字段 */
+function serialized(
+  root: Record<string, unknown> = {},
+  item: Record<string, unknown> = {},
+  configs: Record<string, unknown> = {}
+): SerializedPaperHistory {
+  return {
+    version: HISTORY_VERSION,
+    width: 100,
+    height: 80,
+    histories: [{ configs: { ...CONFIGS, ...configs }, time: 1000, points: [1, 2, 0, 0, 3, 4, 16, 0.5], ...item }],
+    ...root
+  } as SerializedPaperHistory
+}
+
+describe('serializeHistory', () => {
+  it('round-trips points, layers, text, rotation and masks', () => {
+    const stroke = new BrushHistory({ ...new MarkingBrush().toConfigs(), dynamic: true }, [
+      new TimePoint(1.234, 5.678, 1000, 0.12345),
+      new TimePoint(10, 20, 1016, 0.5),
+      new TimePoint(30, 40, 1040, 1)
+    ], 'layer-1')
+    const text = new BrushHistory({ ...CONFIGS, type: 'text', font: 'serif' } as never, [new TimePoint(5, 6, 2000, 0)])
+    text.text = 'hello\nworld'
+    text.rotation = 0.5
+    const fill = new BrushHistory({ ...CONFIGS, type: 'fill', tolerance: 16, gapSize: 2 } as never, [
+      new TimePoint(2, 2, 3000, 0)
+    ])
+    fill.mask = { x: 1, y: 1, width: 2, height: 2, runs: [0, 3, 1] }
+
+    const history: PaperHistory = {
+      width: 100,
+      height: 80,
+      histories: [stroke, text, fill],
+      layers: [
+        { id: 'default', name: 'Default', visible: true, opacity: 1, blendMode: 'normal' },
+        { id: 'layer-1', name: 'Layer 2', visible: false, opacity: 0.5, blendMode: 'multiply' }
+      ]
+    }
+    const json = serializeHistory(history)
+    expect(json.version).toBe(HISTORY_VERSION)
+    expect(json.histories[0].time).toBe(1000)
+    expect(json.histories[0].points).toEqual([1.23, 5.68, 0, 0.123, 10, 20, 16, 0.5, 30, 40, 40, 1])
+    expect(json.histories[1].layer).toBeUndefined()
+
+    const restored = deserializeHistory(JSON.stringify(json))
+    expect(restored.width).toBe(100)
+    expect(restored.height).toBe(80)
+    expect(restored.layers).toEqual(history.layers)
+
+    const [first, second, third] = restored.histories
+    expect(first).toBeInstanceOf(BrushHistory)
+    expect(first.configs).toEqual(stroke.configs)
+    expect(first.layer).toBe('layer-1')
+    expect(first.points.every(x => x instanceof TimePoint)).toBe(true)
+    expect(first.points.map(x => [x.x, x.y, x.time, x.pressure])).toEqual([
+      [1.23, 5.68, 1000, 0.123], [10, 20, 1016, 0.5], [30, 40, 1040, 1]
+    ])
+    expect(second.text).toBe('hello\nworld')
+    expect(second.rotation).toBe(0.5)
+    expect(second.configs.font).toBe('serif')
+    expect(third.mask).toEqual(fill.mask)
+    expect(third.mask).not.toBe(fill.mask)
+  })
+
+  it('omits the default layer and zero rotation', () => {
+    const item = new BrushHistory({ ...CONFIGS } as never, [new TimePoint(0, 0, 5, 0)], 'default')
+    item.rotation = 0
+    const json = serializeHistory({ width: 10, height: 10, histories: [item] })
+    expect(json.histories[0]).toEqual({ configs: CONFIGS, time: 5, points: [0, 0, 0, 0] })
+    expect(json.layers).toBeUndefined()
+  })
+})
+
+describe('deserializeHistory', () => {
+  afterEach(() => {
+    unregisterBrush('stamp')
+  })
+
+  it('accepts objects as well as strings', () => {
+    const history = deserializeHistory(serialized())
+    expect(history.histories[0].points[1].time).toBe(1016)
+    expect(history.histories[0].points[1].pressure).toBe(0.5)
+  })
+
+  it('clamps pressure to 0 ~ 1', () => {
+    const history = deserializeHistory(serialized({}, { points: [0, 0, 0, -1, 1, 1, 1, 2] }))
+    expect(history.histories[0].points.map(x => x.pressure)).toEqual([0, 1])
+  })
+
+  it('loads older versions with explicit defaults', () => {
+    const eraser = { type: 'eraser', blendMode: 'destination-out' }
+    const history = deserializeHistory(serialized({ version: 1 }, {}, eraser))
+    expect(history.histories[0].configs.eraseMode).toBe('pixel')
+    expect(history.histories[0].layer).toBeUndefined()
+    expect(history.layers).toBeUndefined()
+
+    // 版本 5 之后缺省的擦除模式保持缺省
+    expect(deserializeHistory(serialized({ version: 5 }, {}, eraser)).histories[0].configs.eraseMode).toBeUndefined()
+    expect(deserializeHistory(serialized({ version: 3 }, {}, { type: 'rectangle', fill: true })).histories).toHaveLength(1)
+    expect(deserializeHistory(serialized({ version: 4 }, { text: 'a' }, { type: 'text', font: 'serif' })).histories[0].text)
+      .toBe('a')
+  })
+
+  it('rejects fields and brush types newer than the declared version', () => {
+    expect(() => deserializeHistory(serialized({ version: 1, layers: [] })))
+      .toThrow('Invalid history: layers requires version 2, got 1.')
+    expect(() => deserializeHistory(serialized({ version: 1 }, { layer: 'default' })))
+      .toThrow('histories[0].layer requires version 2, got 1.')
+    expect(() => deserializeHistory(serialized({ version: 2 }, {}, { type: 'line' })))
+      .toThrow("histories[0].configs.type 'line' requires version 3, got 2.")
+    expect(() => deserializeHistory(serialized({ version: 4 }, {}, { eraseMode: 'stroke' })))
+      .toThrow('histories[0].configs.eraseMode requires version 5, got 4.')
+    expect(() => deserializeHistory(serialized({ version: 5 }, { rotation: 1 })))
+      .toThrow('histories[0].rotation requires version 6, got 5.')
+    expect(() => deserializeHistory(serialized({ version: 7 }, {}, { type: 'pencil' })))
+      .toThrow("histories[0].configs.type 'pencil' requires version 8, got 7.")
+    expect(() => deserializeHistory(serialized({ version: 9 }, {}, { simplify: 1 })))
+      .toThrow('histories[0].configs.simplify requires version 10, got 9.')
+
+    registerBrush('stamp', configs => new MarkingBrush(undefined, { ...configs, type: 'marking' }))
+    expect(() => deserializeHistory(serialized({ version: 8 }, {}, { type: 'stamp' })))
+      .toThrow("histories[0].configs.type 'stamp' requires version 9, got 8.")
+  })
+
+  it('keeps extra configs of registered custom brushes', () => {
+    registerBrush('stamp', configs => new MarkingBrush(undefined, { ...configs, type: 'marking' }))
+    const history = deserializeHistory(serialized({}, {}, { type: 'stamp', shape: 'star' }))
+    expect(history.histories[0].configs).toMatchObject({ type: 'stamp', shape: 'star' })
+
+    // 注销后再次检查时抛出异常
+    unregisterBrush('stamp')
+    expect(() => assertBrushTypes(history)).toThrow("histories[0].configs.type 'stamp' is not registered")
+  })
+
+  it.each<[string, unknown, string]>([
+    ['a non-object root', [], 'root must be an object'],
+    ['a missing version', serialized({ version: undefined }), 'version is missing'],
+    ['a fractional version', serialized({ version: 1.5 }), 'version is missing'],
+    ['a newer version', serialized({ version: HISTORY_VERSION + 1 }), `version ${HISTORY_VERSION + 1} is not supported`],
+    ['a zero width', serialized({ width: 0 }), 'width and height must be positive integers'],
+    ['a fractional height', serialized({ height: 1.5 }), 'width and height must be positive integers'],
+    ['non-array histories', serialized({ histories: {} }), 'histories must be an array'],
+    ['an unknown layer reference', serialized({}, { layer: 'missing' }), "histories[0].layer 'missing' is unknown"],
+    ['a non-object history', serialized({ histories: [1] }), 'histories[0] must be an object'],
+    ['a fractional time', serialized({}, { time: 1.5 }), 'histories[0].time must be an integer'],
+    ['points that are not 4-tuples', serialized({}, { points: [1, 2, 3] }), 'histories[0].points must be an array of 4-tuples'],
+    ['non-array points', serialized({}, { points: 'x' }), 'histories[0].points must be an array of 4-tuples'],
+    ['non-finite points', serialized({}, { points: [1, 2, 3, null] }), 'histories[0].points must only contain finite numbers'],
+    ['a non-string layer', serialized({}, { layer: 1 }), 'histories[0].layer must be a string'],
+    ['a non-string text', serialized({}, { text: 1 }), 'histories[0].text must be a string'],
+    ['a non-number rotation', serialized({}, { rotation: '1' }), 'histories[0].rotation must be a number'],
+    ['a non-object mask', serialized({}, { mask: 1 }), 'histories[0].mask must be an object'],
+    [
+      'fractional mask coordinates',
+      serialized({}, { mask: { x: 0.5, y: 0, width: 1, height: 1, runs: [0, 1] } }),
+      'histories[0].mask.x and y must be integers'
+    ],
+    [
+      'an empty mask',
+      serialized({}, { mask: { x: 0, y: 0, width: 0, height: 1, runs: [] } }),
+      'histories[0].mask.width and height must be positive integers'
+    ],
+    [
+      'negative mask runs',
+      serialized({}, { mask: { x: 0, y: 0, width: 1, height: 1, runs: [-1, 2] } }),
+      'histories[0].mask.runs must be an array of non-negative integers'
+    ],
+    [
+      'mask runs with a wrong total',
+      serialized({}, { mask: { x: 0, y: 0, width: 2, height: 2, runs: [0, 3] } }),
+      'histories[0].mask.runs must cover width * height pixels'
+    ],
+    ['non-array layers', serialized({ layers: {} }), 'layers must be an array'],
+    ['a non-object layer', serialized({ layers: [null] }), 'layers[0] must be an object'],
+    [
+      'an empty layer id',
+      serialized({ layers: [{ id: '', name: '', visible: true, opacity: 1, blendMode: 'normal' }] }),
+      'layers[0].id must be a non-empty string'
+    ],
+    [
+      'a duplicated layer id',
+      serialized({
+        layers: [
+          { id: 'a', name: '', visible: true, opacity: 1, blendMode: 'normal' },
+          { id: 'a', name: '', visible: true, opacity: 1, blendMode: 'normal' }
+        ]
+      }),
+      "layers[1].id 'a' is duplicated"
+    ],
+    [
+      'a non-string layer name',
+      serialized({ layers: [{ id: 'a', name: 1, visible: true, opacity: 1, blendMode: 'normal' }] }),
+      'layers[0].name must be a string'
+    ],
+    [
+      'a non-boolean layer visibility',
+      serialized({ layers: [{ id: 'a', name: '', visible: 1, opacity: 1, blendMode: 'normal' }] }),
+      'layers[0].visible must be a boolean'
+    ],
+    [
+      'a layer opacity out of range',
+      serialized({ layers: [{ id: 'a', name: '', visible: true, opacity: 2, blendMode: 'normal' }] }),
+      'layers[0].opacity must be a number in 0 ~ 1'
+    ],
+    [
+      'an unknown layer blend mode',
+      serialized({ layers: [{ id: 'a', name: '', visible: true, opacity: 1, blendMode: 'source-over' }] }),
+      "layers[0].blendMode 'source-over' is unknown"
+    ],
+    ['non-object configs', serialized({}, { configs: 1 }), 'histories[0].configs must be an object'],
+    [
+      'an unregistered type',
+      serialized({}, {}, { type: 'stamp' }),
+      "histories[0].configs.type 'stamp' is unknown, custom brushes must be registered before loading"
+    ],
+    ['a color out of range', serialized({}, {}, { color: 0x1000000 }), 'histories[0].configs.color must be an integer in 0x000000 ~ 0xFFFFFF'],
+    ['an alpha out of range', serialized({}, {}, { alpha: -0.1 }), 'histories[0].configs.alpha must be a number in 0 ~ 1'],
+    ['a non-number size', serialized({}, {}, { size: '8' }), 'histories[0].configs.size must be a number'],
+    ['an unknown cap', serialized({}, {}, { cap: 'flat' }), "histories[0].configs.cap 'flat' is unknown"],
+    ['an unknown join', serialized({}, {}, { join: 'sharp' }), "histories[0].configs.join 'sharp' is unknown"],
+    ['an unknown blend mode', serialized({}, {}, { blendMode: 'normal' }), "histories[0].configs.blendMode 'normal' is unknown"],
+    ['a non-boolean dynamic', serialized({}, {}, { dynamic: 1 }), 'histories[0].configs.dynamic must be a boolean'],
+    ['a non-boolean fill', serialized({}, {}, { fill: 1 }), 'histories[0].configs.fill must be a boolean'],
+    ['a non-string font', serialized({}, {}, { font: 1 }), 'histories[0].configs.font must be a string'],
+    ['an unknown erase mode', serialized({}, {}, { eraseMode: 'lasso' }), "histories[0].configs.eraseMode 'lasso' is unknown"],
+    ['a tolerance out of range', serialized({}, {}, { tolerance: 256 }), 'histories[0].configs.tolerance must be a number in 0 ~ 255'],
+    ['a negative gap size', serialized({}, {}, { gapSize: -1 }), 'histories[0].configs.gapSize must be a non-negative number'],
+    ['a non-boolean sampleImage', serialized({}, {}, { sampleImage: 1 }), 'histories[0].configs.sampleImage must be a boolean'],
+    ['an unknown stabilizer', serialized({}, {}, { stabilizer: 'spring' }), "histories[0].configs.stabilizer 'spring' is unknown"],
+    [
+      'a negative stabilizer strength',
+      serialized({}, {}, { stabilizerStrength: -1 }),
+      'histories[0].configs.stabilizerStrength must be a non-negative number'
+    ],
+    ['a negative simplify tolerance', serialized({}, {}, { simplify: -1 }), 'histories[0].configs.simplify must be a non-negative number']
+  ])('rejects %s', (_, data, message) => {
+    expect(() => deserializeHistory(data as SerializedPaperHistory)).toThrow(`Invalid history: ${message}`)
+  })
+
+  it('rejects invalid JSON strings', () => {
+    expect(() => deserializeHistory('{')).toThrow(SyntaxError)
+  })
+})
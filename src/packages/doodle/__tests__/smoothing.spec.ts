@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+import { type Sample, simplifyPath, Stabilizer } from '../smoothing'
+
+/** 创建采样点，时间默认为横坐标 */
+function sample(x: number, y: number, time: number = x, pressure: number = 0.5): Sample {
+  return { x, y, time, pressure }
+}
+
+/** 采样点坐标 */
+function coords(samples: (Sample | undefined)[]): (number[] | undefined)[] {
+  return samples.map(x => x && [x.x, x.y])
+}
+
+describe('simplifyPath', () => {
+  it.each([
+    [[]],
+    [[sample(0, 0)]],
+    [[sample(0, 0), sample(1, 1)]]
+  ])('returns a copy of paths with fewer than three points: %j', points => {
+    const result = simplifyPath(points, 1)
+    expect(result).toEqual(points)
+    expect(result).not.toBe(points)
+  })
+
+  it('keeps every point when the tolerance is not positive', () => {
+    const points = [sample(0, 0), sample(1, 0), sample(2, 0)]
+    expect(simplifyPath(points, 0)).toEqual(points)
+    expect(simplifyPath(points, -1)).toEqual(points)
+  })
+
+  it('removes points closer to the simplified path than the tolerance', () => {
+    const points = [sample(0, 0), sample(1, 0.2), sample(2, -0.3), sample(3, 0.1), sample(4, 0)]
+    expect(simplifyPath(points, 0.5)).toEqual([points[0], points[4]])
+  })
+
+  it('keeps points farther than the tolerance and simplifies both halves', () => {
+    const points = [
+      sample(0, 0), sample(1, 0.1), sample(2, 0),
+      sample(3, 5),
+      sample(4, 0), sample(5, -0.1), sample(6, 0)
+    ]
+    expect(simplifyPath(points, 1)).toEqual([points[0], points[2], points[3], points[4], points[6]])
+  })
+
+  it('returns the original elements in order', () => {
+    const points = [sample(0, 0), sample(5, 5), sample(10, 0)]
+    const result = simplifyPath(points, 1)
+    expect(result).toHaveLength(3)
+    result.forEach((x, i) => expect(x).toBe(points[i]))
+  })
+
+  it('measures the distance to the segment rather than the infinite line', () => {
+    const points = [sample(0, 0), sample(12, 0), sample(10, 0)]
+    expect(simplifyPath(points, 1)).toEqual(points)
+  })
+
+  it('measures the distance to the start when the path is closed', () => {
+    const points = [sample(0, 0), sample(3, 4), sample(0, 0, 9)]
+    expect(simplifyPath(points, 4.9)).toEqual(points)
+    expect(simplifyPath(points, 5)).toEqual([points[0], points[2]])
+  })
+})
+
+describe('Stabilizer', () => {
+  it('passes points through in none mode', () => {
+    const stabilizer = new Stabilizer('none', 10, sample(0, 0))
+    const point = sample(3, 4)
+    expect(stabilizer.next(point)).toBe(point)
+    expect(stabilizer.finish()).toEqual([])
+  })
+
+  describe('lazy', () => {
+    it('keeps the tip still while the pointer stays within the radius', () => {
+      const stabilizer = new Stabilizer('lazy', 5, sample(0, 0))
+      expect(stabilizer.next(sample(3, 4))).toBeUndefined()
+      expect(stabilizer.next(sample(-5, 0))).toBeUndefined()
+    })
+
+    it('pulls the tip towards the pointer until it is one radius away', () => {
+      const stabilizer = new Stabilizer('lazy', 5, sample(0, 0))
+      expect(stabilizer.next(sample(10, 0, 16, 0.8))).toEqual(sample(5, 0, 16, 0.8))
+      expect(stabilizer.next(sample(5, 3))).toBeUndefined()
+      expect(stabilizer.next(sample(5, 12, 32))).toEqual(sample(5, 7, 32))
+    })
+
+    it('uses the default radius when the strength is empty', () => {
+      const stabilizer = new Stabilizer('lazy', undefined, sample(0, 0))
+      expect(stabilizer.next(sample(8, 0))).toBeUndefined()
+      expect(coords([stabilizer.next(sample(9, 0))])).toEqual([[1, 0]])
+    })
+
+    it('follows the pointer when the radius is not positive', () => {
+      const stabilizer = new Stabilizer('lazy', -1, sample(0, 0))
+      expect(coords([stabilizer.next(sample(1, 1)), stabilizer.next(sample(2, 3))])).toEqual([[1, 1], [2, 3]])
+    })
+
+    it('leaves the tip behind when finishing', () => {
+      const stabilizer = new Stabilizer('lazy', 5, sample(0, 0))
+      stabilizer.next(sample(10, 0))
+      expect(stabilizer.finish()).toEqual([])
+    })
+  })
+
+  describe('average', () => {
+    it('averages the most recent points including the start', () => {
+      const stabilizer = new Stabilizer('average', 3, sample(0, 0, 0, 0))
+      expect(stabilizer.next(sample(3, 6, 16, 0.3))).toEqual({ x: 1.5, y: 3, time: 16, pressure: 0.15 })
+      expect(coords([stabilizer.next(sample(6, 0)), stabilizer.next(sample(9, 3))])).toEqual([[3, 2], [6, 3]])
+    })
+
+    it('flushes the trailing samples so the tip reaches the last point', () => {
+      const stabilizer = new Stabilizer('average', 3, sample(0, 0))
+      stabilizer.next(sample(3, 0))
+      stabilizer.next(sample(6, 0))
+      stabilizer.next(sample(9, 0, 48, 1))
+      const rest = stabilizer.finish()
+      expect(coords(rest)).toEqual([[7.5, 0], [9, 0]])
+      expect(rest[rest.length - 1]).toEqual(sample(9, 0, 48, 1))
+      expect(stabilizer.finish()).toEqual([])
+    })
+
+    it('flushes only the samples collected so far', () => {
+      const stabilizer = new Stabilizer('average', 4, sample(0, 0))
+      stabilizer.next(sample(4, 0))
+      expect(coords(stabilizer.finish())).toEqual([[4, 0]])
+    })
+
+    it('uses the default window when the strength is empty', () => {
+      const stabilizer = new Stabilizer('average', undefined, sample(0, 0))
+      const result = [4, 8, 12, 16].map(x => stabilizer.next(sample(x, 0)))
+      expect(coords(result)).toEqual([[2, 0], [4, 0], [6, 0], [10, 0]])
+    })
+
+    it('rounds the window and keeps at least one point', () => {
+      const rounded = new Stabilizer('average', 1.6, sample(0, 0))
+      expect(coords([rounded.next(sample(4, 0))])).toEqual([[2, 0]])
+      const single = new Stabilizer('average', 0, sample(0, 0))
+      expect(coords([single.next(sample(4, 0))])).toEqual([[4, 0]])
+      expect(single.finish()).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { type BrushConfigs, BrushHistory, BrushType, TimePoint } from '../brush'
+import type { PaperHistory } from '../paper'
+import { serializeHistory } from '../serializer'
+import { exportSvg } from '../svg'
+
+const SVG_START = '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+  'width="100" height="80" viewBox="0 0 100 80">'
+
+const MARKING: BrushConfigs = {
+  type: BrushType.marking, color: 0x112233, alpha: 1, size: 4, cap: 'round', join: 'round', blendMode: 'source-over'
+}
+
+const ERASER: BrushConfigs = {
+  ...MARKING, type: BrushType.eraser, size: 10, blendMode: 'destination-out', eraseMode: 'pixel'
+}
+
+/** 沿 y 坐标水平排列的点，横坐标依次为 `xs` */
+function stroke(configs: BrushConfigs, y: number, xs: number[], pressure: number[] = []): BrushHistory {
+  return new BrushHistory(configs, xs.map((x, i) => new TimePoint(x, y, i * 16, pressure[i] ?? 0)))
+}
+
+/** 只包含默认图层的历史记录 */
+function paper(...histories: BrushHistory[]): PaperHistory {
+  return { width: 100, height: 80, histories }
+}
+
+/** 画笔分组的属性 */
+function attributes(color: string, size: number, alpha: number = 1): string {
+  return `opacity="${alpha}" stroke="${color}" fill="${color}" stroke-width="${size}" ` +
+    'stroke-linecap="round" stroke-linejoin="round"'
+}
+
+describe('exportSvg', () => {
+  it('exports strokes as quadratic paths with the brush attributes', () => {
+    const svg = exportSvg(paper(stroke({ ...MARKING, alpha: 0.5 }, 10, [0, 10, 20, 30])))
+    expect(svg).toBe(SVG_START +
+      `<g opacity="1"><g ${attributes('#112233', 4, 0.5)}>` +
+      '<path d="M5 10Q10 10 15 10Q20 10 25 10" fill="none"/></g></g></svg>')
+  })
+
+  it('accepts serialized histories', () => {
+    const history = paper(stroke(MARKING, 10, [0, 10, 20]), stroke(MARKING, 20, [0, 10, 20]))
+    expect(exportSvg(serializeHistory(history))).toBe(exportSvg(history))
+  })
+
+  it('embeds the image when given a URL', () => {
+    const svg = exportSvg(paper(), { image: 'a.png?x=1&y=2' })
+    expect(svg).toBe(SVG_START +
+      '<image x="0" y="0" width="100" height="80" preserveAspectRatio="none" xlink:href="a.png?x=1&amp;y=2"/></svg>')
+  })
+
+  it('turns eraser strokes into a mask over the earlier strokes', () => {
+    const svg = exportSvg(paper(
+      stroke(MARKING, 10, [0, 10, 20]),
+      stroke(ERASER, 10, [5, 10, 15]),
+      stroke(ERASER, 20, [5, 10, 15]),
+      stroke(MARKING, 30, [0, 10, 20])
+    ))
+    expect(svg).toBe(SVG_START +
+      '<defs><mask id="doodle-mask-0" maskUnits="userSpaceOnUse" x="0" y="0" width="100" height="80">' +
+      '<rect width="100" height="80" fill="white"/>' +
+      `<g ${attributes('#000000', 10)}><path d="M7.5 10Q10 10 12.5 10" fill="none"/></g>` +
+      `<g ${attributes('#000000', 10)}><path d="M7.5 20Q10 20 12.5 20" fill="none"/></g>` +
+      '</mask></defs>' +
+      '<g opacity="1">' +
+      `<g mask="url(#doodle-mask-0)"><g ${attributes('#112233', 4)}><path d="M5 10Q10 10 15 10" fill="none"/></g></g>` +
+      `<g ${attributes('#112233', 4)}><path d="M5 30Q10 30 15 30" fill="none"/></g>` +
+      '</g></svg>')
+  })
+
+  it('nests masks and uses the id prefix', () => {
+    const svg = exportSvg(paper(
+      stroke(MARKING, 10, [0, 10, 20]),
+      stroke(ERASER, 10, [5, 10, 15]),
+      stroke(MARKING, 20, [0, 10, 20]),
+      stroke(ERASER, 20, [5, 10, 15])
+    ), { idPrefix: 'page' })
+    expect(svg).toContain('<mask id="page-mask-0"')
+    expect(svg).toContain('<mask id="page-mask-1"')
+    expect(svg).toContain('<g opacity="1"><g mask="url(#page-mask-1)"><g mask="url(#page-mask-0)">')
+  })
+
+  it('ignores erasers without earlier strokes in the same layer', () => {
+    expect(exportSvg(paper(stroke(ERASER, 10, [5, 10, 15])))).toBe(SVG_START + '</svg>')
+  })
+
+  it('blends multiply strokes with the content below but not in masks', () => {
+    const highlighter = { ...MARKING, type: BrushType.highlighter, color: 0xFFEB3B, blendMode: 'multiply' as const }
+    const svg = exportSvg(paper(stroke(highlighter, 10, [0, 10, 20]), stroke(ERASER, 10, [5, 10, 15])))
+    expect(svg).toContain(`<g ${attributes('#ffeb3b', 4)} style="mix-blend-mode: multiply">`)
+    expect(svg.match(/mix-blend-mode/g)).toHaveLength(1)
+  })
+
+  it('exports dynamic-width segments separately and merges segments of the same width', () => {
+    const configs = { ...MARKING, size: 10, dynamic: true }
+    const svg = exportSvg(paper(stroke(configs, 0, [0, 10, 20, 30, 40], [0.5, 0.5, 0.25, 0.25, 0.25])))
+    expect(svg).toContain(`<g ${attributes('#112233', 10)}>` +
+      '<path d="M5 0Q10 0 15 0" fill="none"/>' +
+      '<path d="M15 0Q20 0 25 0M25 0Q30 0 35 0" fill="none" stroke-width="6"/></g>')
+  })
+
+  it('exports visible layers in order with their opacity and blend mode', () => {
+    const top = stroke(MARKING, 20, [0, 10, 20]), hidden = stroke(MARKING, 30, [0, 10, 20])
+    top.layer = 'top'
+    hidden.layer = 'hidden'
+    const history = paper(top, hidden, stroke(MARKING, 10, [0, 10, 20]))
+    history.layers = [
+      { id: 'default', name: 'Default', visible: true, opacity: 1, blendMode: 'normal' },
+      { id: 'hidden', name: 'Hidden', visible: false, opacity: 1, blendMode: 'normal' },
+      { id: 'top', name: 'Top', visible: true, opacity: 0.5, blendMode: 'multiply' }
+    ]
+    const svg = exportSvg(history)
+    expect(svg).not.toContain('M5 30')
+    expect(svg.indexOf('M5 10')).toBeLessThan(svg.indexOf('<g opacity="0.5" style="mix-blend-mode: multiply">'))
+    expect(svg).toContain('<g opacity="0.5" style="mix-blend-mode: multiply">' +
+      `<g ${attributes('#112233', 4)}><path d="M5 20Q10 20 15 20" fill="none"/></g></g>`)
+  })
+})
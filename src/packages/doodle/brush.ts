@@ -1,3 +1,6 @@
+import { fillMask, type FillMask } from './fill'
+import { type Sample, simplifyPath, Stabilizer, type StabilizerMode } from './smoothing'
+
 /**
  * 混合模式
  *
@@ -56,6 +59,23 @@ export type BrushLineCap = 'butt' | 'round' | 'square'
  */
 export type BrushLineJoin = 'bevel' | 'round' | 'miter'
 
+/**
+ * 橡皮擦模式
+ *
+ * `pixel`: 使用 `destination-out` 擦除像素，擦除的笔迹和橡皮擦路径都保留在历史记录中。
+ * `stroke`: 删除橡皮擦路径接触到的整笔笔迹，橡皮擦路径不保存到历史记录。
+ * `split`: 在接触位置切断路径笔迹，形状和文字整笔删除，橡皮擦路径不保存到历史记录。
+ */
+export type EraseMode = 'pixel' | 'stroke' | 'split'
+
+/**
+ * 选择模式
+ *
+ * `lasso`: 套索，按拖拽路径围成的区域选择。
+ * `rectangle`: 矩形，按起点和终点构成的矩形选择。
+ */
+export type SelectMode = 'lasso' | 'rectangle'
+
 /**
  * 笔刷类型
  */
@@ -69,6 +89,146 @@ export enum BrushType {
    * 橡皮擦
    */
   eraser = 'eraser',
+
+  /**
+   * 荧光笔
+   */
+  highlighter = 'highlighter',
+
+  /**
+   * 铅笔
+   */
+  pencil = 'pencil',
+
+  /**
+   * 喷枪
+   */
+  spray = 'spray',
+
+  /**
+   * 直线
+   */
+  line = 'line',
+
+  /**
+   * 箭头
+   */
+  arrow = 'arrow',
+
+  /**
+   * 矩形
+   */
+  rectangle = 'rectangle',
+
+  /**
+   * 椭圆
+   */
+  ellipse = 'ellipse',
+
+  /**
+   * 文字
+   */
+  text = 'text',
+
+  /**
+   * 选择工具，不会保存到历史记录
+   */
+  select = 'select',
+
+  /**
+   * 填充，填充点击位置所在的封闭区域
+   */
+  fill = 'fill',
+}
+
+/**
+ * 文字行高，相对于字号
+ */
+export const TEXT_LINE_HEIGHT = 1.25
+
+/** 铅笔每段绘制的笔触数量 */
+const PENCIL_STRANDS = 3
+
+/** 喷枪每个点的颗粒密度，颗粒数量为半径乘以密度 */
+const SPRAY_DENSITY = 0.6
+
+/**
+ * 判断是否为形状笔刷类型
+ *
+ * 形状笔刷的历史记录只包含起点和终点两个点
+ *
+ * @param type 笔刷类型
+ */
+export function isShapeType(type: BrushType | string): boolean {
+  return type === BrushType.line || type === BrushType.arrow ||
+    type === BrushType.rectangle || type === BrushType.ellipse
+}
+
+/**
+ * 重绘使用的画布接口
+ *
+ * `CanvasRenderingContext2D` 中画笔回放一笔时用到的部分，导出矢量图和计算轮廓时由路径记录器实现
+ */
+export type ReplayContext = Pick<CanvasRenderingContext2D,
+  | 'save' | 'restore' | 'translate' | 'rotate'
+  | 'beginPath' | 'closePath' | 'moveTo' | 'lineTo' | 'quadraticCurveTo' | 'rect' | 'arc' | 'ellipse'
+  | 'stroke' | 'fill' | 'fillText'
+  | 'globalAlpha' | 'globalCompositeOperation' | 'lineCap' | 'lineJoin' | 'lineWidth'
+  | 'strokeStyle' | 'fillStyle' | 'font' | 'textBaseline'
+>
+
+/**
+ * 是否为真实的画布，路径记录器等只实现了 `ReplayContext` 的对象返回 `false`
+ *
+ * @param canvas 画布
+ */
+function isRenderingContext(canvas: ReplayContext): canvas is CanvasRenderingContext2D {
+  return (canvas as Partial<CanvasRenderingContext2D>).canvas !== undefined
+}
+
+/**
+ * 画笔工厂，根据配置创建画笔，创建的画笔需要实现 `BrushPainter`
+ */
+export type BrushFactory = (configs: BrushConfigs) => Brush & BrushPainter
+
+/**
+ * 注册的自定义画笔
+ */
+const brushFactories: Map<string, BrushFactory> = new Map()
+
+/**
+ * 注册自定义画笔
+ *
+ * 注册后 `Brush.fromConfig`、重绘、回放、导出和反序列化都可以使用该类型，
+ * 加载包含该类型的历史记录之前需要先注册。重复注册时替换原来的工厂
+ *
+ * @param type    画笔类型，不能与内置类型重复
+ * @param factory 画笔工厂
+ */
+export function registerBrush(type: string, factory: BrushFactory): void {
+  if (Object.values<string>(BrushType).includes(type)) {
+    throw Error(`Brush type '${type}' is built in.`)
+  }
+  brushFactories.set(type, factory)
+}
+
+/**
+ * 取消注册自定义画笔
+ *
+ * @param type 画笔类型
+ * @return 没有注册该类型时返回 `false`
+ */
+export function unregisterBrush(type: string): boolean {
+  return brushFactories.delete(type)
+}
+
+/**
+ * 画笔类型是否可用，包括内置类型和注册的类型
+ *
+ * @param type 画笔类型
+ */
+export function isBrushRegistered(type: string): boolean {
+  return Object.values<string>(BrushType).includes(type) || brushFactories.has(type)
 }
 
 /**
@@ -76,9 +236,9 @@ export enum BrushType {
  */
 export interface BrushConfigs {
   /**
-   * 笔刷类型
+   * 笔刷类型，内置类型或通过 `registerBrush` 注册的类型
    */
-  type: BrushType
+  type: BrushType | string
 
   /**
    * 颜色，这里请使用不包含 Alpha 通道的颜色值
@@ -113,6 +273,65 @@ export interface BrushConfigs {
    * 混合模式
    */
   blendMode: BrushBlendMode
+
+  /**
+   * 是否开启动态线宽，默认关闭
+   *
+   * 开启后设备提供压感时线宽跟随压感变化，否则根据笔触速度计算线宽
+   */
+  dynamic?: boolean
+
+  /**
+   * 是否填充形状，默认关闭，对矩形和椭圆有效，箭头填充时箭头头部为实心
+   */
+  fill?: boolean
+
+  /**
+   * 字体，仅对文字有效，字号使用画笔大小
+   *
+   * 例如：sans-serif
+   */
+  font?: string
+
+  /**
+   * 橡皮擦模式，仅对橡皮擦有效，默认为 `pixel`
+   */
+  eraseMode?: EraseMode
+
+  /**
+   * 选择模式，仅对选择工具有效，默认为 `lasso`
+   */
+  selectMode?: SelectMode
+
+  /**
+   * 颜色容差 0 ~ 255，仅对填充有效，默认为 32
+   */
+  tolerance?: number
+
+  /**
+   * 封闭缺口的大小，仅对填充有效，边界上小于该值的缺口视为封闭，默认为 0
+   */
+  gapSize?: number
+
+  /**
+   * 是否同时采样底图，仅对填充有效，默认关闭，关闭时只根据图层内容计算填充区域
+   */
+  sampleImage?: boolean
+
+  /**
+   * 防抖模式，仅对路径画笔有效，默认为 `none`
+   */
+  stabilizer?: StabilizerMode
+
+  /**
+   * 防抖强度，`lazy` 时为拖拽绳长度，默认为 8，`average` 时为平均的点数，默认为 4
+   */
+  stabilizerStrength?: number
+
+  /**
+   * 抬笔后简化路径的容差，仅对路径画笔有效，与简化后路径距离小于容差的点不保存，默认为 0 不简化
+   */
+  simplify?: number
 }
 
 /**
@@ -130,11 +349,15 @@ export class TimePoint {
   /** 时间，整数类型 */
   public readonly time: number
 
+  /** 压感，取值范围 0 ~ 1，为 0 时表示设备未提供压感 */
+  public readonly pressure: number
+
   /** 构造时间点*/
-  public constructor(x: number, y: number, time: number = 0) {
+  public constructor(x: number, y: number, time: number = 0, pressure: number = 0) {
     this.x = x
     this.y = y
     this.time = time
+    this.pressure = pressure
   }
 
   /** 向量长度，返回浮点类型 */
@@ -159,7 +382,8 @@ export class TimePoint {
     return new TimePoint(
       (p0.x + p1.x) / 2,
       (p0.y + p1.y) / 2,
-      Math.floor((p0.time + p1.time) / 2)
+      Math.floor((p0.time + p1.time) / 2),
+      (p0.pressure + p1.pressure) / 2
     )
   }
 
@@ -168,7 +392,8 @@ export class TimePoint {
     if (o instanceof TimePoint) {
       return o.x === this.x &&
         o.y === this.y &&
-        o.time === this.time
+        o.time === this.time &&
+        o.pressure === this.pressure
     }
     return false
   }
@@ -189,7 +414,31 @@ export abstract class Brush {
         return new MarkingBrush(undefined, configs)
       case BrushType.eraser:
         return new EraserBrush(undefined, configs)
+      case BrushType.highlighter:
+        return new HighlighterBrush(undefined, configs)
+      case BrushType.pencil:
+        return new PencilBrush(undefined, configs)
+      case BrushType.spray:
+        return new SprayBrush(undefined, configs)
+      case BrushType.line:
+        return new LineBrush(undefined, configs)
+      case BrushType.arrow:
+        return new ArrowBrush(undefined, configs)
+      case BrushType.rectangle:
+        return new RectangleBrush(undefined, configs)
+      case BrushType.ellipse:
+        return new EllipseBrush(undefined, configs)
+      case BrushType.text:
+        return new TextBrush(undefined, configs)
+      case BrushType.select:
+        return new SelectBrush(undefined, configs)
+      case BrushType.fill:
+        return new FillBrush(undefined, configs)
     }
+
+    const factory = brushFactories.get(configs.type)
+    if (!factory) throw Error(`Brush type '${configs.type}' is not registered.`)
+    return factory(configs)
   }
 
   /**
@@ -205,7 +454,7 @@ export abstract class Brush {
   }
 
   /** 画笔类型 */
-  public get type(): BrushType {
+  public get type(): BrushType | string {
     return this.configs.type
   }
 
@@ -270,6 +519,51 @@ export abstract class Brush {
     this.configs.size = size
   }
 
+  /**
+   * 是否开启动态线宽
+   *
+   * @see BrushConfigs.dynamic
+   */
+  public get dynamic(): boolean {
+    return this.configs.dynamic === true
+  }
+
+  /**
+   * 是否开启动态线宽
+   *
+   * @see BrushConfigs.dynamic
+   */
+  public set dynamic(dynamic: boolean) {
+    this.configs.dynamic = dynamic
+  }
+
+  /**
+   * 是否填充形状
+   *
+   * @see BrushConfigs.fill
+   */
+  public get fill(): boolean {
+    return this.configs.fill === true
+  }
+
+  /**
+   * 是否填充形状
+   *
+   * @see BrushConfigs.fill
+   */
+  public set fill(fill: boolean) {
+    this.configs.fill = fill
+  }
+
+  /**
+   * 是否在预览画布上绘制
+   *
+   * 为 `true` 时，绘制过程中的内容只用于预览，抬笔后由画纸根据历史记录重新绘制到图层
+   */
+  public get preview(): boolean {
+    return false
+  }
+
   /**
    * 画笔颜色
    *
@@ -324,6 +618,17 @@ export abstract class Brush {
     this.configs.join = configs.join
     this.configs.blendMode = configs.blendMode
     this.configs.size = configs.size
+    this.configs.dynamic = configs.dynamic
+    this.configs.fill = configs.fill
+    this.configs.font = configs.font
+    this.configs.eraseMode = configs.eraseMode
+    this.configs.selectMode = configs.selectMode
+    this.configs.tolerance = configs.tolerance
+    this.configs.gapSize = configs.gapSize
+    this.configs.sampleImage = configs.sampleImage
+    this.configs.stabilizer = configs.stabilizer
+    this.configs.stabilizerStrength = configs.stabilizerStrength
+    this.configs.simplify = configs.simplify
   }
 
   /**
@@ -338,7 +643,7 @@ export abstract class Brush {
    *
    * @param canvas 画布
    */
-  public applyCanvas(canvas: CanvasRenderingContext2D): void {
+  public applyCanvas(canvas: ReplayContext): void {
     canvas.globalCompositeOperation = this.blendMode
     canvas.lineJoin = this.configs.join
     canvas.lineCap = this.configs.cap
@@ -362,15 +667,39 @@ export class BrushHistory {
    */
   public readonly points: TimePoint[]
 
+  /**
+   * 所属图层编号，为空时属于默认图层
+   */
+  public layer?: string
+
+  /**
+   * 文字内容，仅文字有效
+   */
+  public text?: string
+
+  /**
+   * 旋转角度，单位为弧度，仅对矩形、椭圆和文字有效
+   *
+   * 矩形和椭圆绕起点和终点的中点旋转，文字绕左上角旋转
+   */
+  public rotation?: number
+
+  /**
+   * 填充区域，仅填充有效
+   */
+  public mask?: FillMask
+
   /**
    * 构造历史记录
    *
    * @param configs 画笔配置
    * @param points  时间点集合，如果不存在则创建
+   * @param layer   所属图层编号
    */
-  public constructor(configs: BrushConfigs, points?: TimePoint[]) {
+  public constructor(configs: BrushConfigs, points?: TimePoint[], layer?: string) {
     this.configs = configs
     this.points = points ?? []
+    this.layer = layer
   }
 
   /**
@@ -419,21 +748,28 @@ export class BrushHistory {
 
   /**
    * 是否有效
+   *
+   * 文字需要包含内容，填充需要包含填充区域，形状需要起点和终点不重合，路径至少需要三个点
    */
   public get valid(): boolean {
+    if (this.configs.type === BrushType.text) {
+      return this.points.length > 0 && (this.text ?? '').length > 0
+    }
+    if (this.configs.type === BrushType.fill) {
+      return this.points.length > 0 && this.mask !== undefined
+    }
+    if (isShapeType(this.configs.type)) {
+      return this.points.length > 1 && this.first.distance(this.current) > 0
+    }
     return this.points.length > 2
   }
 
   public clone(): BrushHistory {
-    return new BrushHistory({
-      alpha: this.configs.alpha,
-      blendMode: this.configs.blendMode,
-      cap: this.configs.cap,
-      color: this.configs.color,
-      join: this.configs.join,
-      size: this.configs.size,
-      type: this.configs.type
-    }, [...this.points])
+    const history = new BrushHistory({ ...this.configs }, [...this.points], this.layer)
+    history.text = this.text
+    history.rotation = this.rotation
+    history.mask = this.mask
+    return history
   }
 }
 
@@ -449,7 +785,7 @@ export interface BrushPainter {
    * @param prev    上一点
    * @param current 当前点
    */
-  draw(canvas: CanvasRenderingContext2D, early: TimePoint, prev: TimePoint, current: TimePoint): void
+  draw(canvas: ReplayContext, early: TimePoint, prev: TimePoint, current: TimePoint): void
 
   /**
    * 检测是否需要绘制这个点，满足条件方可添加
@@ -459,6 +795,14 @@ export interface BrushPainter {
    */
   canDraw(prev: TimePoint, current: TimePoint): boolean
 
+  /**
+   * 根据历史记录完整绘制一笔，用于重绘
+   *
+   * @param canvas  画布
+   * @param history 历史记录
+   */
+  replay(canvas: ReplayContext, history: BrushHistory): void
+
   /**
    * 清空历史记录
    */
@@ -467,71 +811,364 @@ export interface BrushPainter {
 
 /**
  * 路径画笔
+ *
+ * 按点绘制的画笔，自定义画笔可以继承并实现 `canDraw`，需要时重写 `draw`。
+ * 整笔只合成一次，半透明时重叠的部分不会加深：固定线宽时整笔作为一条路径描边，
+ * 逐段绘制时先不透明地绘制到临时画布，再按不透明度和混合模式合成。
+ * 绘制过程中新的一段先追加到临时画布，每帧合成一次到预览画布，抬笔后由画纸绘制到图层
  */
-abstract class PathBrush extends Brush implements BrushPainter {
+export abstract class PathBrush extends Brush implements BrushPainter {
   /**
    * 最后一笔的历史记录
    */
   private _history: BrushHistory | undefined = undefined
 
+  /**
+   * 当前这笔的防抖器
+   */
+  private stabilizerFilter: Stabilizer | undefined = undefined
+
+  /**
+   * 当前这笔逐段绘制时使用的临时画布，保存不透明的笔迹
+   */
+  private liveCanvas: CanvasRenderingContext2D | undefined = undefined
+
+  /**
+   * 等待合成到预览画布的动画帧
+   */
+  private liveFrame: number | undefined = undefined
+
+  /**
+   * 防抖模式
+   *
+   * @see BrushConfigs.stabilizer
+   */
+  public get stabilizer(): StabilizerMode {
+    return this.configs.stabilizer ?? 'none'
+  }
+
+  /**
+   * 防抖模式
+   *
+   * @see BrushConfigs.stabilizer
+   */
+  public set stabilizer(mode: StabilizerMode) {
+    this.configs.stabilizer = mode
+  }
+
+  /**
+   * 防抖强度
+   *
+   * @see BrushConfigs.stabilizerStrength
+   */
+  public get stabilizerStrength(): number | undefined {
+    return this.configs.stabilizerStrength
+  }
+
+  /**
+   * 防抖强度
+   *
+   * @see BrushConfigs.stabilizerStrength
+   */
+  public set stabilizerStrength(strength: number | undefined) {
+    this.configs.stabilizerStrength = strength
+  }
+
+  /**
+   * 抬笔后简化路径的容差
+   *
+   * @see BrushConfigs.simplify
+   */
+  public get simplify(): number {
+    return this.configs.simplify ?? 0
+  }
+
+  /**
+   * 抬笔后简化路径的容差
+   *
+   * @see BrushConfigs.simplify
+   */
+  public set simplify(tolerance: number) {
+    this.configs.simplify = Math.max(tolerance, 0)
+  }
+
   public abstract canDraw(prev: TimePoint, current: TimePoint): boolean
 
   public cleanHistory(): BrushHistory | undefined {
     const history = this._history
     this._history = undefined
+    this.liveCanvas = undefined
+    if (this.liveFrame !== undefined) cancelAnimationFrame(this.liveFrame)
+    this.liveFrame = undefined
     return history
   }
 
-  public draw(
-    canvas: CanvasRenderingContext2D,
-    early: TimePoint,
-    prev: TimePoint,
-    current: TimePoint
-  ): void {
-    const p0 = TimePoint.middle(early, prev)
-    const p1 = prev
-    const p2 = TimePoint.middle(prev, current)
+  /** 像素橡皮擦需要直接绘制到图层，其余在预览画布上绘制 */
+  public override get preview(): boolean {
+    return this.blendMode !== 'destination-out'
+  }
+
+  /**
+   * 是否逐段绘制
+   *
+   * 开启动态线宽时每段线宽不同，无法作为一条路径描边。子类重写 `draw` 绘制纹理时也需要返回 `true`
+   */
+  protected get segmented(): boolean {
+    return this.dynamic
+  }
+
+  public replay(canvas: ReplayContext, history: BrushHistory): void {
+    const points = history.points
+    if (points.length < 3) return
+    if (this.segmented) {
+      this.replaySegments(canvas, points)
+      return
+    }
 
     canvas.save()
     try {
-      // 绑定画笔配置
       this.applyCanvas(canvas)
-
-      // 开始绘制
       canvas.beginPath()
-      canvas.moveTo(p0.x, p0.y)
-      canvas.quadraticCurveTo(p1.x, p1.y, p2.x, p2.y)
+      const start = TimePoint.middle(points[0], points[1])
+      canvas.moveTo(start.x, start.y)
+      for (let i = 2; i < points.length; i++) {
+        const end = TimePoint.middle(points[i - 1], points[i])
+        canvas.quadraticCurveTo(points[i - 1].x, points[i - 1].y, end.x, end.y)
+      }
       canvas.stroke()
     } finally {
       canvas.restore()
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
-    this._history = new BrushHistory(this.toConfigs())
-    this._history!.addPoint(point)
-    console.log(this._history)
-  }
-
-  public drawMove(point: TimePoint, canvas: CanvasRenderingContext2D): void {
-    const history = this._history!
-    // 如果点太少就不经过筛查
-    if (history.count > 1 && !this.canDraw(history.current, point)) return
-
-    // 添加点
-    history.addPoint(point)
+  /**
+   * 逐段绘制整笔
+   *
+   * 半透明或使用其他混合模式时，先不透明地绘制到临时画布再合成一次。
+   * 目标不是画布时（例如导出矢量图的路径记录器）直接逐段绘制
+   *
+   * @param canvas 画布
+   * @param points 时间点
+   */
+  private replaySegments(canvas: ReplayContext, points: TimePoint[]): void {
+    const { alpha, blendMode } = this.configs
+    if ((alpha >= 1 && blendMode === 'source-over') || !isRenderingContext(canvas) || typeof document === 'undefined') {
+      for (let i = 2; i < points.length; i++) {
+        this.draw(canvas, points[i - 2], points[i - 1], points[i])
+      }
+      return
+    }
 
-    // 第三个点开始绘制
-    if (!history.valid) return
-    this.draw(canvas, history.early, history.prev, history.current)
+    const element = canvas.canvas
+    const scratch = scratchContext = clearedCanvas(scratchContext, element.width, element.height)
+    scratch.setTransform(canvas.getTransform())
+    for (let i = 2; i < points.length; i++) {
+      this.drawOpaque(scratch, points[i - 2], points[i - 1], points[i])
+    }
+    this.composite(canvas, scratch.canvas)
   }
 
-  public drawUp(canvas: CanvasRenderingContext2D): void {
-    if (this._history?.valid !== true) return
-    const history = this._history!
-    history.addPoint(history.current)
-    this.draw(canvas, history.early, history.prev, history.current)
+  /**
+   * 临时使用不透明的颜色和默认混合模式绘制一段，合成时再应用
+   *
+   * @param canvas  临时画布
+   * @param early   上上点
+   * @param prev    上一点
+   * @param current 当前点
+   */
+  private drawOpaque(
+    canvas: CanvasRenderingContext2D,
+    early: TimePoint,
+    prev: TimePoint,
+    current: TimePoint
+  ): void {
+    const { alpha, blendMode } = this.configs
+    this.configs.alpha = 1
+    this.configs.blendMode = 'source-over'
+    try {
+      this.draw(canvas, early, prev, current)
+    } finally {
+      this.configs.alpha = alpha
+      this.configs.blendMode = blendMode
+    }
+  }
+
+  /**
+   * 按画笔的不透明度和混合模式将临时画布合成到画布
+   *
+   * @param canvas 画布
+   * @param source 临时画布
+   */
+  private composite(canvas: CanvasRenderingContext2D, source: HTMLCanvasElement): void {
+    canvas.save()
+    try {
+      canvas.setTransform(1, 0, 0, 1, 0, 0)
+      canvas.globalAlpha = this.configs.alpha
+      canvas.globalCompositeOperation = this.configs.blendMode
+      canvas.drawImage(source, 0, 0)
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  public draw(
+    canvas: ReplayContext,
+    early: TimePoint,
+    prev: TimePoint,
+    current: TimePoint
+  ): void {
+    const p0 = TimePoint.middle(early, prev)
+    const p1 = prev
+    const p2 = TimePoint.middle(prev, current)
+
+    canvas.save()
+    try {
+      // 绑定画笔配置
+      this.applyCanvas(canvas)
+      canvas.lineWidth = this.computeLineWidth(early, prev, current)
+
+      // 开始绘制
+      canvas.beginPath()
+      canvas.moveTo(p0.x, p0.y)
+      canvas.quadraticCurveTo(p1.x, p1.y, p2.x, p2.y)
+      canvas.stroke()
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  /**
+   * 计算当前线段的线宽
+   *
+   * 未开启动态线宽时直接返回画笔大小。设备提供压感时线宽跟随压感变化，
+   * 否则根据最近三个点的速度计算，速度越快线条越细
+   *
+   * @param early   上上点
+   * @param prev    上一点
+   * @param current 当前点
+   */
+  protected computeLineWidth(early: TimePoint, prev: TimePoint, current: TimePoint): number {
+    const size = this.strokeSize
+    if (!this.dynamic) return size
+
+    // 压感 0.5 时为画笔原始大小
+    if (prev.pressure > 0) {
+      return size * Math.min(Math.max(0.2 + 1.6 * prev.pressure, 0.2), 1.8)
+    }
+
+    const duration = current.time - early.time
+    if (duration <= 0 || size <= 0) return size
+
+    // 以每毫秒经过多少个画笔大小作为速度，使其与图片分辨率无关
+    const speed = (early.distance(prev) + prev.distance(current)) / duration / size
+    return size * Math.min(Math.max(1.4 - speed * 4, 0.4), 1.4)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
+    this._history = new BrushHistory(this.toConfigs())
+    this._history!.addPoint(point)
+    this.liveCanvas = undefined
+    this.stabilizerFilter = this.stabilizer === 'none'
+      ? undefined
+      : new Stabilizer(this.stabilizer, this.configs.stabilizerStrength, point)
+  }
+
+  public drawMove(point: TimePoint, canvas: CanvasRenderingContext2D): void {
+    const filtered = this.stabilizerFilter ? this.stabilizerFilter.next(point) : point
+    if (filtered) this.appendPoint(filtered, canvas)
+  }
+
+  public drawUp(canvas: CanvasRenderingContext2D): void {
+    this.stabilizerFilter?.finish().forEach(x => this.appendPoint(x, canvas))
+    this.stabilizerFilter = undefined
+
+    if (this._history?.valid !== true) return
+    const history = this._history!
+    history.addPoint(history.current)
+    this.drawLive(canvas)
+
+    // 抬笔时立即合成，不再等待下一帧
+    if (this.liveFrame !== undefined) {
+      cancelAnimationFrame(this.liveFrame)
+      this.liveFrame = undefined
+      this.renderLive(canvas)
+    }
+
+    // 简化时保留末尾重复的点，使曲线绘制到终点
+    if (this.simplify > 0) {
+      const points = simplifyPath(history.points.slice(0, -1), this.simplify)
+      history.points.splice(0, history.points.length, ...points, points[points.length - 1])
+    }
+  }
+
+  /**
+   * 添加防抖后的点，并绘制新的一段
+   *
+   * @param sample 防抖后的点
+   * @param canvas 画布
+   */
+  private appendPoint(sample: TimePoint | Sample, canvas: CanvasRenderingContext2D): void {
+    const history = this._history!
+    const point = sample instanceof TimePoint
+      ? sample
+      : new TimePoint(sample.x, sample.y, sample.time, sample.pressure)
+
+    // 如果点太少就不经过筛查
+    if (history.count > 1 && !this.canDraw(history.current, point)) return
+
+    // 添加点
+    history.addPoint(point)
+
+    // 第三个点开始绘制
+    if (!history.valid) return
+    this.drawLive(canvas)
+  }
+
+  /**
+   * 绘制正在进行的一笔的新一段
+   *
+   * 直接绘制到图层时只绘制新的一段；需要预览时，逐段绘制的笔迹将新的一段不透明地追加到临时画布，
+   * 然后在下一帧统一合成到预览画布，避免每次移动都重绘整笔
+   *
+   * @param canvas 画布
+   */
+  private drawLive(canvas: CanvasRenderingContext2D): void {
+    const history = this._history!
+    if (!this.preview) {
+      this.draw(canvas, history.early, history.prev, history.current)
+      return
+    }
+
+    if (this.segmented) {
+      if (!this.liveCanvas) {
+        const element = canvas.canvas
+        this.liveCanvas = liveContext = clearedCanvas(liveContext, element.width, element.height)
+        this.liveCanvas.setTransform(canvas.getTransform())
+      }
+      this.drawOpaque(this.liveCanvas, history.early, history.prev, history.current)
+    }
+    if (this.liveFrame !== undefined) return
+    this.liveFrame = requestAnimationFrame(() => {
+      this.liveFrame = undefined
+      this.renderLive(canvas)
+    })
+  }
+
+  /**
+   * 重绘预览画布，逐段绘制的笔迹合成临时画布，否则作为一条路径描边
+   *
+   * @param canvas 预览画布
+   */
+  private renderLive(canvas: CanvasRenderingContext2D): void {
+    const history = this._history
+    canvas.clearRect(0, 0, canvas.canvas.width, canvas.canvas.height)
+    if (!history) return
+    if (this.liveCanvas) {
+      this.composite(canvas, this.liveCanvas.canvas)
+    } else {
+      this.replay(canvas, history)
+    }
   }
 }
 
@@ -590,7 +1227,921 @@ export class EraserBrush extends PathBrush implements Brush {
     })
   }
 
+  /**
+   * 橡皮擦模式
+   *
+   * @see BrushConfigs.eraseMode
+   */
+  public get mode(): EraseMode {
+    return this.configs.eraseMode ?? 'pixel'
+  }
+
+  /**
+   * 橡皮擦模式
+   *
+   * @see BrushConfigs.eraseMode
+   */
+  public set mode(mode: EraseMode) {
+    this.configs.eraseMode = mode
+  }
+
+  /** 矢量擦除时路径只用于预览，抬笔后由画纸删除或切断接触到的笔迹 */
+  public override get preview(): boolean {
+    return this.mode !== 'pixel'
+  }
+
+  /** 矢量擦除按画笔大小检测接触，预览使用固定线宽 */
+  protected override get segmented(): boolean {
+    return this.mode === 'pixel' && this.dynamic
+  }
+
   public override canDraw(prev: TimePoint, current: TimePoint): boolean {
     return current.distance(prev) >= Math.max(this.strokeSize / 8.0, 2.0)
   }
-}
\ No newline at end of file
+
+  public override applyCanvas(canvas: ReplayContext): void {
+    super.applyCanvas(canvas)
+    if (this.mode === 'pixel') return
+
+    // 矢量擦除在预览画布上显示半透明的橡皮擦路径
+    canvas.globalCompositeOperation = 'source-over'
+    canvas.strokeStyle = 'rgba(128, 128, 128, 0.5)'
+  }
+}
+
+/**
+ * 荧光笔
+ *
+ * 使用正片叠底混合，与路径画笔一样整笔合成一次，同一笔重叠的部分不会加深。
+ * 画纸将其绘制到图层的正片叠底画布，从而与底图和下方的图层混合
+ */
+export class HighlighterBrush extends PathBrush implements Brush {
+  /**
+   * 初始化荧光笔
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.highlighter) {
+      throw Error('Type must be a highlighter brush.')
+    }
+    super(configs ?? {
+      type: BrushType.highlighter,
+      alpha: 0.6,
+      blendMode: 'multiply',
+      cap: 'round',
+      color: 0xFFEB3B,
+      join: 'round',
+      size: size ?? 24.0
+    })
+  }
+
+  public override canDraw(prev: TimePoint, current: TimePoint): boolean {
+    return current.distance(prev) >= Math.max(this.strokeSize / 6.0, 2.0)
+  }
+}
+
+/**
+ * 铅笔
+ *
+ * 每段由几条带随机偏移和透明度的细线组成，形成粗糙的边缘。随机数由点的坐标和时间决定，重绘时纹理保持一致
+ */
+export class PencilBrush extends PathBrush implements Brush {
+  /**
+   * 初始化铅笔
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.pencil) {
+      throw Error('Type must be a pencil brush.')
+    }
+    super(configs ?? {
+      type: BrushType.pencil,
+      alpha: 0.9,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0x424242,
+      join: 'round',
+      size: size ?? 4.0
+    })
+  }
+
+  public override canDraw(prev: TimePoint, current: TimePoint): boolean {
+    return current.distance(prev) >= Math.max(this.strokeSize / 2.0, 1.0)
+  }
+
+  protected override get segmented(): boolean {
+    return true
+  }
+
+  public override draw(
+    canvas: ReplayContext,
+    early: TimePoint,
+    prev: TimePoint,
+    current: TimePoint
+  ): void {
+    const p0 = TimePoint.middle(early, prev)
+    const p1 = prev
+    const p2 = TimePoint.middle(prev, current)
+    const width = this.computeLineWidth(early, prev, current)
+    const random = seededRandom(prev.x, prev.y, current.time)
+
+    // 笔触沿线段法线方向偏移
+    const dx = p2.x - p0.x, dy = p2.y - p0.y
+    const length = Math.hypot(dx, dy) || 1
+    const nx = -dy / length, ny = dx / length
+
+    canvas.save()
+    try {
+      this.applyCanvas(canvas)
+      canvas.lineWidth = Math.max(width / 2, 0.5)
+      for (let i = 0; i < PENCIL_STRANDS; i++) {
+        const offset = (random() - 0.5) * width * 0.8
+        const jitter = (random() - 0.5) * width * 0.3
+        canvas.globalAlpha = 0.35 + random() * 0.5
+        canvas.beginPath()
+        canvas.moveTo(p0.x + nx * offset, p0.y + ny * offset)
+        canvas.quadraticCurveTo(
+          p1.x + nx * (offset + jitter),
+          p1.y + ny * (offset + jitter),
+          p2.x + nx * offset,
+          p2.y + ny * offset
+        )
+        canvas.stroke()
+      }
+    } finally {
+      canvas.restore()
+    }
+  }
+}
+
+/**
+ * 喷枪
+ *
+ * 在每个点周围的圆形范围内喷洒颗粒，颗粒位置由点的坐标和时间决定，重绘和回放时与绘制时一致
+ */
+export class SprayBrush extends PathBrush implements Brush {
+  /**
+   * 初始化喷枪
+   *
+   * @param size    喷洒范围的直径
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.spray) {
+      throw Error('Type must be a spray brush.')
+    }
+    super(configs ?? {
+      type: BrushType.spray,
+      alpha: 1,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0xE53935,
+      join: 'round',
+      size: size ?? 32.0
+    })
+  }
+
+  public override canDraw(prev: TimePoint, current: TimePoint): boolean {
+    return current.distance(prev) >= Math.max(this.strokeSize / 8.0, 1.0)
+  }
+
+  protected override get segmented(): boolean {
+    return true
+  }
+
+  public override draw(
+    canvas: ReplayContext,
+    early: TimePoint,
+    prev: TimePoint,
+    current: TimePoint
+  ): void {
+    // 抬笔时重复的最后一个点不再喷洒
+    if (current.equals(prev)) return
+    const radius = this.computeLineWidth(early, prev, current) / 2
+    const count = Math.max(Math.round(radius * SPRAY_DENSITY), 1)
+    const dot = Math.max(radius / 16, 0.5)
+    const random = seededRandom(current.x, current.y, current.time)
+
+    canvas.save()
+    try {
+      this.applyCanvas(canvas)
+      canvas.fillStyle = this.strokeStyle
+      canvas.beginPath()
+      for (let i = 0; i < count; i++) {
+        // 开方使颗粒在圆内均匀分布
+        const angle = random() * Math.PI * 2
+        const distance = radius * Math.sqrt(random())
+        const x = current.x + distance * Math.cos(angle), y = current.y + distance * Math.sin(angle)
+        canvas.moveTo(x + dot, y)
+        canvas.arc(x, y, dot, 0, Math.PI * 2)
+      }
+      canvas.fill()
+    } finally {
+      canvas.restore()
+    }
+  }
+}
+
+/** 重放逐段绘制的笔迹时使用的临时画布 */
+let scratchContext: CanvasRenderingContext2D | undefined = undefined
+
+/** 绘制过程中保存正在进行的一笔的临时画布，与重放分开，避免绘制过程中重绘其他笔迹时被清空 */
+let liveContext: CanvasRenderingContext2D | undefined = undefined
+
+/**
+ * 清空临时画布，尺寸与目标画布不同时重新创建
+ *
+ * @param context 之前的临时画布
+ * @param width   宽度
+ * @param height  高度
+ */
+function clearedCanvas(
+  context: CanvasRenderingContext2D | undefined,
+  width: number,
+  height: number
+): CanvasRenderingContext2D {
+  if (!context || context.canvas.width !== width || context.canvas.height !== height) {
+    const element = document.createElement('canvas')
+    element.width = width
+    element.height = height
+    context = element.getContext('2d')!
+  }
+  context.setTransform(1, 0, 0, 1, 0, 0)
+  context.clearRect(0, 0, width, height)
+  return context
+}
+
+/**
+ * 创建确定的伪随机数生成器
+ *
+ * 种子由传入的数值按保留两位小数计算，与序列化后的精度一致，因此导入的历史记录得到相同的随机序列
+ *
+ * @param values 种子数值
+ * @return 返回 0 ~ 1 之间随机数的函数
+ */
+function seededRandom(...values: number[]): () => number {
+  let seed = 2166136261
+  for (const value of values) {
+    seed = Math.imul(seed ^ Math.round(value * 100), 16777619)
+  }
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * 形状画笔
+ *
+ * 历史记录只保存起点和终点，拖拽过程中在预览画布上绘制
+ */
+abstract class ShapeBrush extends Brush implements BrushPainter {
+  /**
+   * 最后一笔的历史记录
+   */
+  private _history: BrushHistory | undefined = undefined
+
+  /**
+   * 初始化形状画笔
+   *
+   * @param type    画笔类型
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  protected constructor(type: BrushType, size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != type) {
+      throw Error(`Type must be a ${type} brush.`)
+    }
+    super(configs ?? {
+      type,
+      alpha: 1,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0xE53935,
+      join: 'round',
+      size: size ?? 8.0,
+      fill: false
+    })
+  }
+
+  public override get preview(): boolean {
+    return true
+  }
+
+  public canDraw(prev: TimePoint, current: TimePoint): boolean {
+    return current.distance(prev) >= 1.0
+  }
+
+  public cleanHistory(): BrushHistory | undefined {
+    const history = this._history
+    this._history = undefined
+    return history?.valid === true ? history : undefined
+  }
+
+  public replay(canvas: ReplayContext, history: BrushHistory): void {
+    this.drawShape(canvas, history.first, history.current, history.rotation ?? 0)
+  }
+
+  public draw(
+    canvas: ReplayContext,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _early: TimePoint,
+    prev: TimePoint,
+    current: TimePoint
+  ): void {
+    this.drawShape(canvas, prev, current)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
+    this._history = new BrushHistory(this.toConfigs(), [point])
+  }
+
+  public drawMove(point: TimePoint, canvas: CanvasRenderingContext2D): void {
+    const history = this._history!
+    if (!this.canDraw(history.current, point)) return
+
+    // 只保留起点和终点
+    history.points.splice(1, 1, point)
+
+    // 预览画布只显示当前形状
+    canvas.clearRect(0, 0, canvas.canvas.width, canvas.canvas.height)
+    if (history.valid) this.drawShape(canvas, history.first, history.current)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawUp(_canvas: CanvasRenderingContext2D): void {
+    // 形状在拖拽过程中已经确定，无需处理
+  }
+
+  /**
+   * 绘制形状
+   *
+   * @param canvas   画布
+   * @param start    起点
+   * @param end      终点
+   * @param rotation 旋转角度
+   */
+  protected drawShape(
+    canvas: ReplayContext,
+    start: TimePoint,
+    end: TimePoint,
+    rotation: number = 0
+  ): void {
+    canvas.save()
+    try {
+      this.applyCanvas(canvas)
+      canvas.fillStyle = this.strokeStyle
+      canvas.beginPath()
+      this.buildPath(canvas, start, end, rotation)
+      if (this.fill) canvas.fill()
+      canvas.stroke()
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  /**
+   * 构建形状路径
+   *
+   * @param canvas   画布
+   * @param start    起点
+   * @param end      终点
+   * @param rotation 绕中点的旋转角度，直线和箭头的旋转直接体现在端点上
+   */
+  protected abstract buildPath(
+    canvas: ReplayContext,
+    start: TimePoint,
+    end: TimePoint,
+    rotation: number
+  ): void
+}
+
+/**
+ * 直线
+ */
+export class LineBrush extends ShapeBrush implements Brush {
+  /**
+   * 初始化直线
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    super(BrushType.line, size, configs)
+  }
+
+  protected buildPath(canvas: ReplayContext, start: TimePoint, end: TimePoint): void {
+    canvas.moveTo(start.x, start.y)
+    canvas.lineTo(end.x, end.y)
+  }
+}
+
+/**
+ * 箭头，箭头位于终点
+ */
+export class ArrowBrush extends ShapeBrush implements Brush {
+  /**
+   * 初始化箭头
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    super(BrushType.arrow, size, configs)
+  }
+
+  protected buildPath(canvas: ReplayContext, start: TimePoint, end: TimePoint): void {
+    const angle = Math.atan2(end.y - start.y, end.x - start.x)
+    // 箭头长度随画笔大小变化，但不超过线段长度的一半
+    const length = Math.min(Math.max(this.strokeSize * 3, 12), start.distance(end) / 2)
+    const spread = Math.PI / 6
+
+    canvas.moveTo(start.x, start.y)
+    canvas.lineTo(end.x, end.y)
+    canvas.moveTo(
+      end.x - length * Math.cos(angle - spread),
+      end.y - length * Math.sin(angle - spread)
+    )
+    canvas.lineTo(end.x, end.y)
+    canvas.lineTo(
+      end.x - length * Math.cos(angle + spread),
+      end.y - length * Math.sin(angle + spread)
+    )
+  }
+}
+
+/**
+ * 矩形，起点和终点为对角
+ */
+export class RectangleBrush extends ShapeBrush implements Brush {
+  /**
+   * 初始化矩形
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    super(BrushType.rectangle, size, configs)
+  }
+
+  protected buildPath(
+    canvas: ReplayContext,
+    start: TimePoint,
+    end: TimePoint,
+    rotation: number
+  ): void {
+    if (rotation === 0) {
+      canvas.rect(
+        Math.min(start.x, end.x),
+        Math.min(start.y, end.y),
+        Math.abs(end.x - start.x),
+        Math.abs(end.y - start.y)
+      )
+      return
+    }
+
+    // 四个顶点绕中点旋转
+    const cx = (start.x + end.x) / 2, cy = (start.y + end.y) / 2
+    const cos = Math.cos(rotation), sin = Math.sin(rotation)
+    const corners = [[start.x, start.y], [end.x, start.y], [end.x, end.y], [start.x, end.y]]
+    corners.forEach(([x, y], index) => {
+      const dx = x - cx, dy = y - cy
+      const px = cx + dx * cos - dy * sin, py = cy + dx * sin + dy * cos
+      if (index === 0) {
+        canvas.moveTo(px, py)
+      } else {
+        canvas.lineTo(px, py)
+      }
+    })
+    canvas.closePath()
+  }
+}
+
+/**
+ * 椭圆，内切于起点和终点构成的矩形
+ */
+export class EllipseBrush extends ShapeBrush implements Brush {
+  /**
+   * 初始化椭圆
+   *
+   * @param size    画笔大小
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    super(BrushType.ellipse, size, configs)
+  }
+
+  protected buildPath(
+    canvas: ReplayContext,
+    start: TimePoint,
+    end: TimePoint,
+    rotation: number
+  ): void {
+    canvas.ellipse(
+      (start.x + end.x) / 2,
+      (start.y + end.y) / 2,
+      Math.abs(end.x - start.x) / 2,
+      Math.abs(end.y - start.y) / 2,
+      rotation,
+      0,
+      Math.PI * 2
+    )
+  }
+}
+
+/**
+ * 文字画笔
+ *
+ * 历史记录只保存文字左上角的位置，文字内容由画纸通过编辑框输入
+ */
+export class TextBrush extends Brush implements BrushPainter {
+  /**
+   * 文字所在范围
+   *
+   * @param canvas  画布，用于测量文字宽度
+   * @param history 文字历史记录
+   */
+  public static bounds(
+    canvas: CanvasRenderingContext2D,
+    history: BrushHistory
+  ): { x: number, y: number, width: number, height: number } {
+    const lines = (history.text ?? '').split('\n')
+    const size = history.configs.size
+    canvas.save()
+    try {
+      canvas.font = TextBrush.fontOf(history.configs)
+      const width = Math.max(...lines.map(line => canvas.measureText(line).width))
+      const { x, y } = history.first
+      return { x, y, width, height: lines.length * size * TEXT_LINE_HEIGHT }
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  /**
+   * 根据配置生成 CSS 字体
+   *
+   * @param configs 画笔配置
+   */
+  public static fontOf(configs: BrushConfigs): string {
+    return `${configs.size}px ${configs.font ?? 'sans-serif'}`
+  }
+
+  /**
+   * 最后一次点击的历史记录
+   */
+  private _history: BrushHistory | undefined = undefined
+
+  /**
+   * 初始化文字画笔
+   *
+   * @param size    字号
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.text) {
+      throw Error('Type must be a text brush.')
+    }
+    super(configs ?? {
+      type: BrushType.text,
+      alpha: 1,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0xE53935,
+      join: 'round',
+      size: size ?? 32.0,
+      font: 'sans-serif'
+    })
+  }
+
+  /**
+   * 字体
+   *
+   * @see BrushConfigs.font
+   */
+  public get font(): string {
+    return this.configs.font ?? 'sans-serif'
+  }
+
+  /**
+   * 字体
+   *
+   * @see BrushConfigs.font
+   */
+  public set font(font: string) {
+    this.configs.font = font
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public canDraw(_prev: TimePoint, _current: TimePoint): boolean {
+    return false
+  }
+
+  public cleanHistory(): BrushHistory | undefined {
+    const history = this._history
+    this._history = undefined
+    return history
+  }
+
+  public replay(canvas: ReplayContext, history: BrushHistory): void {
+    const lines = (history.text ?? '').split('\n')
+    const size = history.configs.size
+    const lineHeight = size * TEXT_LINE_HEIGHT
+    const { x, y } = history.first
+
+    // 与编辑框一致，文字在行高内垂直居中
+    const top = (lineHeight - size) / 2
+
+    canvas.save()
+    try {
+      canvas.globalCompositeOperation = this.blendMode
+      canvas.fillStyle = this.strokeStyle
+      canvas.font = TextBrush.fontOf(history.configs)
+      canvas.textBaseline = 'top'
+      canvas.translate(x, y)
+      if (history.rotation) canvas.rotate(history.rotation)
+      lines.forEach((line, index) => canvas.fillText(line, 0, top + lineHeight * index))
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  public draw(): void {
+    // 文字不按点绘制
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
+    this._history = new BrushHistory(this.toConfigs(), [point])
+  }
+
+  public drawMove(): void {
+    // 文字只记录按下的位置
+  }
+
+  public drawUp(): void {
+    // 文字内容由编辑框输入
+  }
+}
+
+/**
+ * 选择工具
+ *
+ * 拖拽时在预览画布上显示套索或矩形，抬笔后由画纸选择范围内的笔迹，历史记录不会保存
+ */
+export class SelectBrush extends Brush implements BrushPainter {
+  /**
+   * 当前拖拽的历史记录
+   */
+  private _history: BrushHistory | undefined = undefined
+
+  /**
+   * 初始化选择工具
+   *
+   * @param mode    选择模式
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(mode?: SelectMode, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.select) {
+      throw Error('Type must be a select brush.')
+    }
+    super(configs ?? {
+      type: BrushType.select,
+      alpha: 1,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0x1E88E5,
+      join: 'round',
+      size: 1.0,
+      selectMode: mode ?? 'lasso'
+    })
+  }
+
+  /**
+   * 选择模式
+   *
+   * @see BrushConfigs.selectMode
+   */
+  public get mode(): SelectMode {
+    return this.configs.selectMode ?? 'lasso'
+  }
+
+  /**
+   * 选择模式
+   *
+   * @see BrushConfigs.selectMode
+   */
+  public set mode(mode: SelectMode) {
+    this.configs.selectMode = mode
+  }
+
+  public override get preview(): boolean {
+    return true
+  }
+
+  public canDraw(prev: TimePoint, current: TimePoint): boolean {
+    return current.distance(prev) >= 2.0
+  }
+
+  public cleanHistory(): BrushHistory | undefined {
+    const history = this._history
+    this._history = undefined
+    return history
+  }
+
+  public replay(canvas: ReplayContext, history: BrushHistory): void {
+    const points = history.points
+    if (points.length < 2) return
+    canvas.save()
+    try {
+      this.applyCanvas(canvas)
+      // 线宽和虚线在屏幕上保持固定大小
+      if (isRenderingContext(canvas)) {
+        const element = canvas.canvas
+        canvas.lineWidth = 1.5 * element.width / (element.clientWidth || element.width)
+        canvas.setLineDash([canvas.lineWidth * 4, canvas.lineWidth * 4])
+      }
+      canvas.beginPath()
+      if (this.mode === 'rectangle') {
+        const { x, y } = history.first, end = history.current
+        canvas.rect(Math.min(x, end.x), Math.min(y, end.y), Math.abs(end.x - x), Math.abs(end.y - y))
+      } else {
+        canvas.moveTo(points[0].x, points[0].y)
+        points.forEach(point => canvas.lineTo(point.x, point.y))
+        canvas.closePath()
+      }
+      canvas.stroke()
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  public draw(): void {
+    // 选择范围在拖拽过程中整体重绘
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
+    this._history = new BrushHistory(this.toConfigs(), [point])
+  }
+
+  public drawMove(point: TimePoint, canvas: CanvasRenderingContext2D): void {
+    const history = this._history!
+    if (!this.canDraw(history.current, point)) return
+    if (this.mode === 'rectangle') {
+      history.points.splice(1, 1, point)
+    } else {
+      history.addPoint(point)
+    }
+    canvas.clearRect(0, 0, canvas.canvas.width, canvas.canvas.height)
+    this.replay(canvas, history)
+  }
+
+  public drawUp(): void {
+    // 选择范围由画纸处理
+  }
+}
+
+/**
+ * 填充
+ *
+ * 历史记录保存点击位置和填充区域，填充区域由画纸在抬笔时根据画布像素计算
+ */
+export class FillBrush extends Brush implements BrushPainter {
+  /**
+   * 最后一次点击的历史记录
+   */
+  private _history: BrushHistory | undefined = undefined
+
+  /**
+   * 初始化填充
+   *
+   * @param size    笔迹粗细，填充不使用，仅为与其他画笔保持一致
+   * @param configs 如不清楚，请勿传递
+   */
+  public constructor(size?: number, configs?: BrushConfigs) {
+    if (configs && configs.type != BrushType.fill) {
+      throw Error('Type must be a fill brush.')
+    }
+    super(configs ?? {
+      type: BrushType.fill,
+      alpha: 1,
+      blendMode: 'source-over',
+      cap: 'round',
+      color: 0xFDD835,
+      join: 'round',
+      size: size ?? 1.0,
+      tolerance: 32,
+      gapSize: 0,
+      sampleImage: false
+    })
+  }
+
+  /**
+   * 颜色容差
+   *
+   * @see BrushConfigs.tolerance
+   */
+  public get tolerance(): number {
+    return this.configs.tolerance ?? 32
+  }
+
+  /**
+   * 颜色容差
+   *
+   * @see BrushConfigs.tolerance
+   */
+  public set tolerance(tolerance: number) {
+    this.configs.tolerance = Math.min(Math.max(tolerance, 0), 255)
+  }
+
+  /**
+   * 封闭缺口的大小
+   *
+   * @see BrushConfigs.gapSize
+   */
+  public get gapSize(): number {
+    return this.configs.gapSize ?? 0
+  }
+
+  /**
+   * 封闭缺口的大小
+   *
+   * @see BrushConfigs.gapSize
+   */
+  public set gapSize(size: number) {
+    this.configs.gapSize = Math.max(size, 0)
+  }
+
+  /**
+   * 是否同时采样底图
+   *
+   * @see BrushConfigs.sampleImage
+   */
+  public get sampleImage(): boolean {
+    return this.configs.sampleImage === true
+  }
+
+  /**
+   * 是否同时采样底图
+   *
+   * @see BrushConfigs.sampleImage
+   */
+  public set sampleImage(sample: boolean) {
+    this.configs.sampleImage = sample
+  }
+
+  /** 填充区域在抬笔后由画纸计算并绘制到图层 */
+  public override get preview(): boolean {
+    return true
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public canDraw(_prev: TimePoint, _current: TimePoint): boolean {
+    return false
+  }
+
+  public cleanHistory(): BrushHistory | undefined {
+    const history = this._history
+    this._history = undefined
+    return history
+  }
+
+  public replay(canvas: ReplayContext, history: BrushHistory): void {
+    if (!history.mask) return
+    canvas.save()
+    try {
+      canvas.globalCompositeOperation = this.blendMode
+      canvas.fillStyle = this.strokeStyle
+      canvas.beginPath()
+      fillMask(canvas, history.mask)
+      canvas.fill()
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  public draw(): void {
+    // 填充不按点绘制
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public drawDown(point: TimePoint, _canvas: CanvasRenderingContext2D): void {
+    this._history = new BrushHistory(this.toConfigs(), [point])
+  }
+
+  public drawMove(): void {
+    // 填充只记录按下的位置
+  }
+
+  public drawUp(): void {
+    // 填充区域由画纸计算
+  }
+}
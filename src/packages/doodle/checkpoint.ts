@@ -0,0 +1,161 @@
+import type { BrushHistory } from './brush'
+
+/**
+ * 栅格快照配置
+ */
+export interface CheckpointOptions {
+  /**
+   * 每隔多少笔保存一次快照，默认为 20，小于等于 0 时不保存快照
+   */
+  interval?: number
+
+  /**
+   * 所有快照最多占用的内存，单位为字节，默认为 64 MB
+   *
+   * 每个快照占用 `宽 * 高 * 4` 字节，超出时优先丢弃最早保存的快照
+   */
+  maxMemory?: number
+}
+
+/** 快照画布 */
+type CheckpointSurface = OffscreenCanvas | HTMLCanvasElement
+
+/** 快照 */
+interface Checkpoint {
+  /** 图层编号 */
+  layer: string
+
+  /** 快照中已经绘制的历史记录，用于校验快照是否仍然有效 */
+  items: BrushHistory[]
+
+  /** 快照画布 */
+  surface: CheckpointSurface
+}
+
+/**
+ * 栅格快照缓存
+ *
+ * 每个图层每绘制若干笔保存一次图层画布，重绘时从最近的有效快照开始，只需要重放快照之后的笔迹
+ */
+export class CheckpointCache {
+  /** 画布宽度 */
+  private readonly width: number
+
+  /** 画布高度 */
+  private readonly height: number
+
+  /** 保存间隔 */
+  private readonly interval: number
+
+  /** 最多保存的快照个数，由内存限制计算得出 */
+  private readonly capacity: number
+
+  /** 快照列表，按保存顺序排列 */
+  private readonly checkpoints: Checkpoint[] = []
+
+  /**
+   * 构造快照缓存
+   *
+   * @param width   画布宽度
+   * @param height  画布高度
+   * @param options 快照配置
+   */
+  public constructor(width: number, height: number, options?: CheckpointOptions) {
+    this.width = width
+    this.height = height
+    this.interval = Math.floor(options?.interval ?? 20)
+    const maxMemory = options?.maxMemory ?? 64 * 1024 * 1024
+    this.capacity = Math.floor(maxMemory / Math.max(width * height * 4, 1))
+  }
+
+  /** 是否启用快照 */
+  public get enabled(): boolean {
+    return this.interval > 0 && this.capacity > 0
+  }
+
+  /**
+   * 查找图层最近的有效快照
+   *
+   * 不匹配的快照不会被丢弃：正在编辑的文字、正在拖动的选区以及撤销的笔迹只是暂时不绘制，
+   * 恢复后快照仍然有效，真正失效的快照在超出内存限制时被淘汰
+   *
+   * @param layer 图层编号
+   * @param items 图层当前需要绘制的历史记录
+   * @return 快照画布以及快照中已经绘制的笔数
+   */
+  public find(
+    layer: string,
+    items: BrushHistory[]
+  ): { surface: CheckpointSurface, count: number } | undefined {
+    let found: Checkpoint | undefined = undefined
+    for (let i = this.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = this.checkpoints[i]
+      if (checkpoint.layer !== layer || !CheckpointCache.matches(checkpoint, items)) continue
+      if (!found || checkpoint.items.length > found.items.length) found = checkpoint
+    }
+    return found && { surface: found.surface, count: found.items.length }
+  }
+
+  /**
+   * 如果达到保存间隔，保存图层当前画布
+   *
+   * @param layer  图层编号
+   * @param items  图层的历史记录
+   * @param count  画布中已经绘制的笔数，即 `items` 的前 `count` 笔
+   * @param canvas 图层画布
+   */
+  public save(
+    layer: string,
+    items: BrushHistory[],
+    count: number,
+    canvas: CanvasRenderingContext2D
+  ): void {
+    if (!this.enabled || count <= 0 || count % this.interval !== 0) return
+    const exists = this.checkpoints.some(x => {
+      return x.layer === layer && x.items.length === count && CheckpointCache.matches(x, items)
+    })
+    if (exists) return
+
+    const surface = this.createSurface()
+    surface.getContext('2d')!.drawImage(canvas.canvas, 0, 0)
+    this.checkpoints.push({ layer, items: items.slice(0, count), surface })
+    while (this.checkpoints.length > this.capacity) {
+      this.checkpoints.shift()
+    }
+  }
+
+  /**
+   * 丢弃快照
+   *
+   * @param layer 图层编号，为空时丢弃所有快照
+   */
+  public invalidate(layer?: string): void {
+    for (let i = this.checkpoints.length - 1; i >= 0; i--) {
+      if (layer === undefined || this.checkpoints[i].layer === layer) {
+        this.checkpoints.splice(i, 1)
+      }
+    }
+  }
+
+  /** 创建快照画布，优先使用 OffscreenCanvas */
+  private createSurface(): CheckpointSurface {
+    if (typeof OffscreenCanvas === 'function') {
+      return new OffscreenCanvas(this.width, this.height)
+    }
+    const canvas = document.createElement('canvas')
+    canvas.width = this.width
+    canvas.height = this.height
+    return canvas
+  }
+
+  /**
+   * 快照中的历史记录是否为当前历史记录的前缀
+   *
+   * @param checkpoint 快照
+   * @param items      当前历史记录
+   */
+  private static matches(checkpoint: Checkpoint, items: BrushHistory[]): boolean {
+    if (checkpoint.items.length > items.length) return false
+    return checkpoint.items.every((item, index) => item === items[index])
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * 可撤销的操作
+ */
+export interface Command {
+  /** 执行操作，重做时再次调用 */
+  do(): void
+
+  /** 撤销操作 */
+  undo(): void
+}
+
+/**
+ * 组合操作，按顺序执行，按相反顺序撤销
+ */
+class CompositeCommand implements Command {
+  /** 包含的操作 */
+  private readonly commands: Command[]
+
+  /**
+   * 构造组合操作
+   *
+   * @param commands 包含的操作
+   */
+  public constructor(commands: Command[]) {
+    this.commands = commands
+  }
+
+  public do(): void {
+    this.commands.forEach(x => x.do())
+  }
+
+  public undo(): void {
+    for (let i = this.commands.length - 1; i >= 0; i--) {
+      this.commands[i].undo()
+    }
+  }
+}
+
+/**
+ * 撤销栈
+ *
+ * 记录已经执行的操作，超出最大深度时丢弃最早的操作。事务期间记录的操作在提交时合并为一次撤销
+ */
+export class CommandStack {
+  /** 可撤销的操作 */
+  private readonly undoStack: Command[] = []
+
+  /** 可重做的操作 */
+  private readonly redoStack: Command[] = []
+
+  /** 事务中记录的操作，不在事务中时为空 */
+  private transaction?: Command[]
+
+  /** 事务嵌套层数，嵌套的事务合并到最外层 */
+  private transactionDepth: number = 0
+
+  /** 最大撤销深度 */
+  private _maxDepth: number
+
+  /**
+   * 构造撤销栈
+   *
+   * @param maxDepth 最大撤销深度，默认不限制
+   */
+  public constructor(maxDepth: number = Infinity) {
+    this._maxDepth = CommandStack.normalizeDepth(maxDepth)
+  }
+
+  /** 是否允许撤销，事务期间不允许撤销 */
+  public get canUndo(): boolean {
+    return !this.transaction && this.undoStack.length > 0
+  }
+
+  /** 是否允许重做，事务期间不允许重做 */
+  public get canRedo(): boolean {
+    return !this.transaction && this.redoStack.length > 0
+  }
+
+  /** 是否在事务中 */
+  public get inTransaction(): boolean {
+    return this.transaction !== undefined
+  }
+
+  /** 最大撤销深度 */
+  public get maxDepth(): number {
+    return this._maxDepth
+  }
+
+  /** 设置最大撤销深度，超出部分丢弃最早的操作 */
+  public set maxDepth(maxDepth: number) {
+    this._maxDepth = CommandStack.normalizeDepth(maxDepth)
+    this.trim()
+  }
+
+  /**
+   * 执行操作并记录
+   *
+   * @param command 操作
+   */
+  public execute(command: Command): void {
+    command.do()
+    this.push(command)
+  }
+
+  /**
+   * 记录已经执行的操作，并清空重做历史
+   *
+   * @param command 操作
+   */
+  public push(command: Command): void {
+    if (this.transaction) {
+      this.transaction.push(command)
+      return
+    }
+    this.undoStack.push(command)
+    this.redoStack.splice(0) // 清空重做历史
+    this.trim()
+  }
+
+  /** 撤销最近一次操作，如果执行失败返回 `false` */
+  public undo(): boolean {
+    if (!this.canUndo) return false
+    const command = this.undoStack.pop()!
+    command.undo()
+    this.redoStack.push(command)
+    return true
+  }
+
+  /** 重做最近一次撤销的操作，如果执行失败返回 `false` */
+  public redo(): boolean {
+    if (!this.canRedo) return false
+    const command = this.redoStack.pop()!
+    command.do()
+    this.undoStack.push(command)
+    return true
+  }
+
+  /** 开始事务，支持嵌套 */
+  public begin(): void {
+    if (this.transactionDepth++ === 0) this.transaction = []
+  }
+
+  /** 提交事务，最外层事务提交时将记录的操作合并为一次撤销 */
+  public commit(): void {
+    if (this.transactionDepth === 0 || --this.transactionDepth > 0) return
+    const commands = this.transaction!
+    this.transaction = undefined
+    if (commands.length === 0) return
+    this.push(commands.length === 1 ? commands[0] : new CompositeCommand(commands))
+  }
+
+  /** 回滚事务，按相反顺序撤销事务中已经执行的所有操作 */
+  public rollback(): void {
+    if (this.transactionDepth === 0) return
+    const commands = this.transaction!
+    this.transactionDepth = 0
+    this.transaction = undefined
+    new CompositeCommand(commands).undo()
+  }
+
+  /** 清空撤销和重做历史，同时放弃未提交的事务 */
+  public clear(): void {
+    this.undoStack.splice(0)
+    this.redoStack.splice(0)
+    this.transactionDepth = 0
+    this.transaction = undefined
+  }
+
+  /** 丢弃超出最大深度的操作 */
+  private trim(): void {
+    const overflow = this.undoStack.length - this._maxDepth
+    if (overflow > 0) this.undoStack.splice(0, overflow)
+  }
+
+  /**
+   * 规范化最大深度，至少为 1
+   *
+   * @param maxDepth 最大深度
+   */
+  private static normalizeDepth(maxDepth: number): number {
+    return Number.isNaN(maxDepth) ? Infinity : Math.max(Math.floor(maxDepth), 1)
+  }
+}
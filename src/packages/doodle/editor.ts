@@ -0,0 +1,138 @@
+import { TEXT_LINE_HEIGHT } from './brush'
+
+/**
+ * 文字编辑框配置，坐标和字号均为画布父布局中的 CSS 像素
+ */
+export interface TextEditorOptions {
+  /** 左上角横坐标 */
+  x: number
+
+  /** 左上角纵坐标 */
+  y: number
+
+  /** 初始文字 */
+  text: string
+
+  /** 字号 */
+  fontSize: number
+
+  /** 字体 */
+  font: string
+
+  /** 文字颜色，CSS 颜色值 */
+  color: string
+
+  /** 层级 */
+  zIndex: number
+}
+
+/**
+ * 编辑完成回调，取消编辑时 `text` 为空
+ */
+export type TextEditorCallback = (text: string | undefined) => void
+
+/**
+ * 文字编辑框
+ *
+ * 编辑框放置在画布父布局中，因此会跟随画布一起移动和缩放。
+ * 按下 `Enter` 或失去焦点时完成编辑，按下 `Shift + Enter` 换行，按下 `Escape` 取消编辑
+ */
+export class TextEditor {
+  /** 输入框 */
+  private readonly input: HTMLTextAreaElement
+
+  /** 完成回调 */
+  private readonly callback: TextEditorCallback
+
+  /** 是否已经结束编辑 */
+  private finished: boolean = false
+
+  /**
+   * 创建并显示文字编辑框
+   *
+   * @param parent   画布父布局
+   * @param options  编辑框配置
+   * @param callback 编辑完成回调
+   */
+  public constructor(parent: HTMLElement, options: TextEditorOptions, callback: TextEditorCallback) {
+    const self = this
+    this.callback = callback
+    this.input = document.createElement('textarea')
+    this.input.value = options.text
+    this.input.rows = 1
+    this.input.spellcheck = false
+
+    const style = this.input.style
+    style.position = 'absolute'
+    style.left = options.x + 'px'
+    style.top = options.y + 'px'
+    style.zIndex = options.zIndex.toString()
+    style.margin = '0'
+    style.padding = '0'
+    style.border = 'none'
+    style.outline = '1px dashed ' + options.color
+    style.background = 'transparent'
+    style.color = options.color
+    style.font = `${options.fontSize}px ${options.font}`
+    style.lineHeight = TEXT_LINE_HEIGHT.toString()
+    style.whiteSpace = 'pre'
+    style.overflow = 'hidden'
+    style.resize = 'none'
+    style.userSelect = 'text'
+    style.touchAction = 'auto'
+
+    // 避免事件传递到画纸
+    this.input.addEventListener('pointerdown', (evt) => evt.stopPropagation())
+    this.input.addEventListener('input', () => self.autoSize())
+    this.input.addEventListener('blur', () => self.finish(self.input.value))
+    this.input.addEventListener('keydown', (evt) => {
+      evt.stopPropagation()
+      if (evt.key === 'Escape') {
+        self.finish(undefined)
+      } else if (evt.key === 'Enter' && !evt.shiftKey && !evt.isComposing) {
+        evt.preventDefault()
+        self.finish(self.input.value)
+      }
+    })
+
+    parent.appendChild(this.input)
+    this.autoSize()
+    this.input.focus()
+  }
+
+  /** 是否已经结束编辑 */
+  public get done(): boolean {
+    return this.finished
+  }
+
+  /** 以当前内容完成编辑 */
+  public commit(): void {
+    this.finish(this.input.value)
+  }
+
+  /** 取消编辑 */
+  public cancel(): void {
+    this.finish(undefined)
+  }
+
+  /** 根据内容调整输入框大小 */
+  private autoSize(): void {
+    const style = this.input.style
+    style.width = '0'
+    style.height = '0'
+    style.width = Math.max(this.input.scrollWidth, 8) + 'px'
+    style.height = this.input.scrollHeight + 'px'
+  }
+
+  /**
+   * 结束编辑，只会回调一次
+   *
+   * @param text 编辑结果，取消时为空
+   */
+  private finish(text: string | undefined): void {
+    if (this.finished) return
+    this.finished = true
+    this.input.remove()
+    this.callback(text)
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * 事件监听器
+ */
+export type EventListener<T extends unknown[]> = (...args: T) => void
+
+/**
+ * 类型安全的事件分发器
+ *
+ * 泛型参数为事件名称到事件参数的映射，例如 `{ change: [value: number] }`
+ */
+export class EventEmitter<T extends { [K in keyof T]: unknown[] }> {
+  /** 监听器列表 */
+  private readonly listeners: { [K in keyof T]?: EventListener<T[K]>[] } = {}
+
+  /**
+   * 添加监听
+   *
+   * @param type     事件名称
+   * @param listener 监听器
+   */
+  public on<K extends keyof T>(type: K, listener: EventListener<T[K]>): void {
+    const listeners = this.listeners[type] ?? []
+    listeners.push(listener)
+    this.listeners[type] = listeners
+  }
+
+  /**
+   * 移除监听
+   *
+   * @param type     事件名称
+   * @param listener 监听器
+   */
+  public off<K extends keyof T>(type: K, listener: EventListener<T[K]>): void {
+    const listeners = this.listeners[type]
+    if (!listeners) return
+    const index = listeners.indexOf(listener)
+    if (index >= 0) listeners.splice(index, 1)
+  }
+
+  /**
+   * 分发事件
+   *
+   * @param type 事件名称
+   * @param args 事件参数
+   */
+  public emit<K extends keyof T>(type: K, ...args: T[K]): void {
+    const listeners = this.listeners[type]
+    if (!listeners) return
+    for (const listener of [...listeners]) {
+      listener(...args)
+    }
+  }
+
+  /** 移除所有监听 */
+  public clear(): void {
+    for (const type of Object.keys(this.listeners)) {
+      delete this.listeners[type as keyof T]
+    }
+  }
+}
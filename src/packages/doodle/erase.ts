@@ -0,0 +1,135 @@
+import { BrushHistory, BrushType, isShapeType, TimePoint } from './brush'
+import {
+  containsPoint,
+  type Outline,
+  outlineOf,
+  type Point,
+  pointToSegment,
+  segmentToSegment
+} from './geometry'
+
+/**
+ * 矢量橡皮擦
+ *
+ * 根据橡皮擦路径和画笔线宽进行碰撞检测，`split` 模式切断接触到的路径笔迹，其余整笔删除
+ */
+export class VectorEraser {
+  /** 橡皮擦路径 */
+  private readonly points: TimePoint[]
+
+  /** 橡皮擦半径 */
+  private readonly radius: number
+
+  /** 是否切断笔迹 */
+  private readonly splitting: boolean
+
+  /** 用于测量文字的画布 */
+  private readonly canvas: CanvasRenderingContext2D
+
+  /**
+   * 构造矢量橡皮擦
+   *
+   * @param eraser 橡皮擦历史记录
+   * @param canvas 用于测量文字的画布
+   */
+  public constructor(eraser: BrushHistory, canvas: CanvasRenderingContext2D) {
+    this.points = eraser.points
+    this.radius = Math.max(eraser.configs.size, 0) / 2
+    this.splitting = eraser.configs.eraseMode === 'split'
+    this.canvas = canvas
+  }
+
+  /**
+   * 擦除一笔
+   *
+   * @param history 历史记录
+   * @return 没有接触时返回空，否则返回替换的笔迹，整笔删除时为空数组
+   */
+  public erase(history: BrushHistory): BrushHistory[] | undefined {
+    // 像素橡皮擦的笔迹不参与矢量擦除，否则会恢复已经擦除的内容
+    if (history.configs.blendMode === 'destination-out') return undefined
+    if (!this.touches(outlineOf(history, this.canvas))) return undefined
+
+    const type = history.configs.type
+    if (!this.splitting || type === BrushType.text || type === BrushType.fill || isShapeType(type)) {
+      return []
+    }
+    return this.split(history)
+  }
+
+  /**
+   * 在接触位置切断路径笔迹
+   *
+   * 删除橡皮擦范围内的点，并在与橡皮擦相交的线段处断开，剩余的每一段作为新的笔迹
+   *
+   * @param history 路径历史记录
+   */
+  private split(history: BrushHistory): BrushHistory[] {
+    const points = history.points
+    const reach = this.radius + history.configs.size / 2
+    const pieces: TimePoint[][] = []
+    let piece: TimePoint[] = []
+
+    for (let i = 0; i < points.length; i++) {
+      const point = points[i]
+      const removed = this.distanceTo(point, point) <= reach
+      const broken = i > 0 && piece.length > 0 && this.distanceTo(points[i - 1], point) <= reach
+      if (removed || broken) {
+        if (piece.length > 0) pieces.push(piece)
+        piece = []
+      }
+      if (!removed) piece.push(point)
+    }
+    if (piece.length > 0) pieces.push(piece)
+
+    return pieces.map(item => {
+      // 在断开处重复端点，使曲线绘制到端点位置
+      const result = [...item]
+      if (item[0] !== points[0]) result.unshift(item[0])
+      if (item[item.length - 1] !== points[points.length - 1]) result.push(item[item.length - 1])
+      const copy = new BrushHistory({ ...history.configs }, result, history.layer)
+      copy.text = history.text
+      return copy
+    }).filter(x => x.valid)
+  }
+
+  /**
+   * 橡皮擦是否接触轮廓
+   *
+   * @param outline 笔迹轮廓
+   */
+  private touches(outline: Outline): boolean {
+    for (const stroke of outline.strokes) {
+      const reach = this.radius + stroke.width / 2
+      const points = stroke.points
+      if (points.length === 1 && this.distanceTo(points[0], points[0]) <= reach) return true
+      for (let i = 1; i < points.length; i++) {
+        if (this.distanceTo(points[i - 1], points[i]) <= reach) return true
+      }
+    }
+    for (const polygon of outline.fills) {
+      if (this.points.some(point => containsPoint(polygon, point))) return true
+      for (let i = 1; i <= polygon.length; i++) {
+        const a = polygon[i - 1], b = polygon[i % polygon.length]
+        if (this.distanceTo(a, b) <= this.radius) return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * 计算线段到橡皮擦路径的最短距离
+   *
+   * @param a 线段起点
+   * @param b 线段终点
+   */
+  private distanceTo(a: Point, b: Point): number {
+    const points = this.points
+    if (points.length === 1) return pointToSegment(points[0], a, b)
+    let min = Infinity
+    for (let i = 1; i < points.length; i++) {
+      min = Math.min(min, segmentToSegment(points[i - 1], points[i], a, b))
+    }
+    return min
+  }
+}
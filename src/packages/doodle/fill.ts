@@ -0,0 +1,231 @@
+import type { ReplayContext } from './brush'
+
+/** 填充区域向边界外扩展的像素数，用于覆盖线条边缘的抗锯齿像素 */
+const EDGE_SPREAD = 1
+
+/**
+ * 填充区域
+ *
+ * 以游程编码记录包围盒内逐行扫描的像素，`runs` 依次为未填充和填充的连续像素个数，从未填充开始
+ */
+export interface FillMask {
+  /** 包围盒左上角横坐标 */
+  x: number
+
+  /** 包围盒左上角纵坐标 */
+  y: number
+
+  /** 包围盒宽度 */
+  width: number
+
+  /** 包围盒高度 */
+  height: number
+
+  /** 游程长度，总和等于包围盒面积 */
+  runs: number[]
+}
+
+/**
+ * 填充配置
+ */
+export interface FloodFillOptions {
+  /** 颜色容差，0 ~ 255，像素各通道与起点颜色的差值都不超过容差时视为同一区域 */
+  tolerance: number
+
+  /** 封闭缺口的大小，边界上小于该值的缺口视为封闭，为 0 时不处理缺口 */
+  gapSize: number
+}
+
+/**
+ * 从起点开始计算填充区域
+ *
+ * 与起点颜色相近的像素组成可填充区域，其余像素作为边界。处理缺口时先将边界加粗以封闭缺口，
+ * 填充后再将区域扩展回原来的边界
+ *
+ * @param image   采样的像素
+ * @param x       起点横坐标
+ * @param y       起点纵坐标
+ * @param options 填充配置
+ * @return 起点不在画布内时返回空
+ */
+export function floodFill(image: ImageData, x: number, y: number, options: FloodFillOptions): FillMask | undefined {
+  const { width, height, data } = image
+  const sx = Math.floor(x), sy = Math.floor(y)
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return undefined
+
+  // 标记与起点颜色差异超过容差的像素
+  const seed = (sy * width + sx) * 4
+  const tolerance = Math.max(options.tolerance, 0)
+  const walls = new Uint8Array(width * height)
+  for (let i = 0; i < walls.length; i++) {
+    const offset = i * 4
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(data[offset + channel] - data[seed + channel]) > tolerance) {
+        walls[i] = 1
+        break
+      }
+    }
+  }
+
+  // 起点位于加粗后的边界内时不处理缺口
+  const radius = Math.ceil(Math.max(options.gapSize, 0) / 2)
+  let closed = radius > 0 ? dilate(walls, width, height, radius) : walls
+  if (closed[sy * width + sx]) closed = walls
+
+  let region = scanlineFill(closed, width, height, sx, sy)
+  if (closed !== walls) {
+    region = dilate(region, width, height, radius)
+    for (let i = 0; i < region.length; i++) {
+      if (walls[i]) region[i] = 0
+    }
+  }
+  return encodeMask(dilate(region, width, height, EDGE_SPREAD), width, height)
+}
+
+/**
+ * 将填充区域逐行绘制到画布，每段连续的像素绘制为一个矩形
+ *
+ * @param canvas 画布
+ * @param mask   填充区域
+ */
+export function fillMask(canvas: ReplayContext, mask: FillMask): void {
+  const { x, y, width, runs } = mask
+  let index = 0
+  for (let i = 0; i < runs.length; i++) {
+    // 奇数位置为填充的像素
+    if (i % 2 === 1) {
+      let length = runs[i], start = index
+      while (length > 0) {
+        const column = start % width, row = (start - column) / width
+        const count = Math.min(length, width - column)
+        canvas.rect(x + column, y + row, count, 1)
+        start += count
+        length -= count
+      }
+    }
+    index += runs[i]
+  }
+}
+
+/**
+ * 扫描线填充
+ *
+ * @param walls  边界
+ * @param width  宽度
+ * @param height 高度
+ * @param x      起点横坐标
+ * @param y      起点纵坐标
+ */
+function scanlineFill(walls: Uint8Array, width: number, height: number, x: number, y: number): Uint8Array {
+  const region = new Uint8Array(width * height)
+  const stack: number[] = [x, y]
+  while (stack.length > 0) {
+    const py = stack.pop()!, px = stack.pop()!
+    const row = py * width
+    if (walls[row + px] || region[row + px]) continue
+
+    let left = px, right = px
+    while (left > 0 && !walls[row + left - 1] && !region[row + left - 1]) left--
+    while (right < width - 1 && !walls[row + right + 1] && !region[row + right + 1]) right++
+    region.fill(1, row + left, row + right + 1)
+
+    // 上下两行中每段可填充的像素只入栈一次
+    for (const ny of [py - 1, py + 1]) {
+      if (ny < 0 || ny >= height) continue
+      const next = ny * width
+      let open = false
+      for (let nx = left; nx <= right; nx++) {
+        const fillable = !walls[next + nx] && !region[next + nx]
+        if (fillable && !open) stack.push(nx, ny)
+        open = fillable
+      }
+    }
+  }
+  return region
+}
+
+/**
+ * 使用方形结构元素膨胀，横向和纵向分别计算
+ *
+ * @param source 原始区域
+ * @param width  宽度
+ * @param height 高度
+ * @param radius 膨胀半径
+ */
+function dilate(source: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const horizontal = new Uint8Array(source.length)
+  for (let y = 0; y < height; y++) {
+    dilateLine(source, horizontal, y * width, 1, width, radius)
+  }
+  const result = new Uint8Array(source.length)
+  for (let x = 0; x < width; x++) {
+    dilateLine(horizontal, result, x, width, height, radius)
+  }
+  return result
+}
+
+/**
+ * 膨胀一行或一列，滑动窗口内存在标记时标记当前像素
+ *
+ * @param source 原始数据
+ * @param target 输出数据
+ * @param start  起始下标
+ * @param step   相邻像素的下标间隔
+ * @param length 像素个数
+ * @param radius 膨胀半径
+ */
+function dilateLine(
+  source: Uint8Array,
+  target: Uint8Array,
+  start: number,
+  step: number,
+  length: number,
+  radius: number
+): void {
+  let count = 0
+  for (let i = 0; i < Math.min(radius, length); i++) count += source[start + i * step]
+  for (let i = 0; i < length; i++) {
+    if (i + radius < length) count += source[start + (i + radius) * step]
+    if (i - radius - 1 >= 0) count -= source[start + (i - radius - 1) * step]
+    if (count > 0) target[start + i * step] = 1
+  }
+}
+
+/**
+ * 将填充区域编码为包围盒内的游程
+ *
+ * @param region 填充区域
+ * @param width  宽度
+ * @param height 高度
+ */
+function encodeMask(region: Uint8Array, width: number, height: number): FillMask | undefined {
+  let left = width, top = height, right = -1, bottom = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!region[y * width + x]) continue
+      left = Math.min(left, x)
+      right = Math.max(right, x)
+      top = Math.min(top, y)
+      bottom = Math.max(bottom, y)
+    }
+  }
+  if (right < 0) return undefined
+
+  const maskWidth = right - left + 1, maskHeight = bottom - top + 1
+  const runs: number[] = []
+  let value = 0, length = 0
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const current = region[y * width + x]
+      if (current === value) {
+        length++
+        continue
+      }
+      runs.push(length)
+      value = current
+      length = 1
+    }
+  }
+  runs.push(length)
+  return { x: left, y: top, width: maskWidth, height: maskHeight, runs }
+}
@@ -0,0 +1,342 @@
+import { Brush, type BrushHistory, type BrushPainter, BrushType, type ReplayContext, TextBrush } from './brush'
+
+/** 曲线采样的段数 */
+const CURVE_SEGMENTS = 8
+
+/** 完整椭圆采样的段数 */
+const ELLIPSE_SEGMENTS = 32
+
+/**
+ * 坐标
+ */
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * 笔迹轮廓，由画笔绘制时的路径采样得到
+ */
+export interface Outline {
+  /** 描边折线及其线宽 */
+  strokes: { points: Point[], width: number }[]
+
+  /** 填充区域 */
+  fills: Point[][]
+}
+
+/** 路径记录器随 `save` 和 `restore` 保存的绘制属性 */
+type RecorderStyle = Pick<ReplayContext,
+  | 'globalAlpha' | 'globalCompositeOperation' | 'lineCap' | 'lineJoin' | 'lineWidth'
+  | 'strokeStyle' | 'fillStyle' | 'font' | 'textBaseline'
+>
+
+/**
+ * 路径记录器
+ *
+ * 实现 `ReplayContext` 中的状态和变换接口，子类实现路径操作，并通过 `map` 将绘制坐标转换为画布坐标。
+ * 画笔设置的颜色、混合模式等属性只做记录，由子类按需读取
+ */
+export abstract class PathRecorder implements ReplayContext {
+  public globalAlpha: number = 1
+
+  public globalCompositeOperation: GlobalCompositeOperation = 'source-over'
+
+  public lineCap: CanvasLineCap = 'butt'
+
+  public lineJoin: CanvasLineJoin = 'miter'
+
+  /** 线宽 */
+  public lineWidth: number = 1
+
+  public strokeStyle: string | CanvasGradient | CanvasPattern = '#000000'
+
+  public fillStyle: string | CanvasGradient | CanvasPattern = '#000000'
+
+  public font: string = '10px sans-serif'
+
+  /** 文字基线 */
+  public textBaseline: CanvasTextBaseline = 'alphabetic'
+
+  /** 当前变换的平移 */
+  protected translateX: number = 0
+
+  /** 当前变换的平移 */
+  protected translateY: number = 0
+
+  /** 当前变换的旋转角度 */
+  protected angle: number = 0
+
+  /** 保存的状态 */
+  private readonly stack: { style: RecorderStyle, x: number, y: number, angle: number }[] = []
+
+  public save(): void {
+    const { globalAlpha, globalCompositeOperation, lineCap, lineJoin, lineWidth } = this
+    const { strokeStyle, fillStyle, font, textBaseline } = this
+    this.stack.push({
+      style: {
+        globalAlpha, globalCompositeOperation, lineCap, lineJoin, lineWidth,
+        strokeStyle, fillStyle, font, textBaseline
+      },
+      x: this.translateX,
+      y: this.translateY,
+      angle: this.angle
+    })
+  }
+
+  public restore(): void {
+    const state = this.stack.pop()
+    if (!state) return
+    Object.assign(this, state.style)
+    this.translateX = state.x
+    this.translateY = state.y
+    this.angle = state.angle
+  }
+
+  public translate(x: number, y: number): void {
+    const point = this.map(x, y)
+    this.translateX = point.x
+    this.translateY = point.y
+  }
+
+  public rotate(angle: number): void {
+    this.angle += angle
+  }
+
+  public abstract beginPath(): void
+
+  public abstract closePath(): void
+
+  public abstract moveTo(x: number, y: number): void
+
+  public abstract lineTo(x: number, y: number): void
+
+  public abstract quadraticCurveTo(cx: number, cy: number, x: number, y: number): void
+
+  public abstract rect(x: number, y: number, width: number, height: number): void
+
+  public abstract arc(x: number, y: number, radius: number, start: number, end: number, anticlockwise?: boolean): void
+
+  public abstract ellipse(
+    x: number,
+    y: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    start: number,
+    end: number,
+    anticlockwise?: boolean
+  ): void
+
+  public abstract stroke(): void
+
+  public abstract fill(): void
+
+  public abstract fillText(text: string, x: number, y: number): void
+
+  /**
+   * 将绘制坐标转换为画布坐标
+   *
+   * @param x 横坐标
+   * @param y 纵坐标
+   */
+  protected map(x: number, y: number): Point {
+    if (this.angle === 0) return { x: x + this.translateX, y: y + this.translateY }
+    const cos = Math.cos(this.angle), sin = Math.sin(this.angle)
+    return { x: this.translateX + x * cos - y * sin, y: this.translateY + x * sin + y * cos }
+  }
+}
+
+/**
+ * 轮廓采样器，将画笔绘制的路径采样为折线
+ */
+class OutlineSampler extends PathRecorder {
+  /** 采样得到的轮廓 */
+  public readonly outline: Outline = { strokes: [], fills: [] }
+
+  /** 当前路径中的折线 */
+  private lines: Point[][] = []
+
+  public beginPath(): void {
+    this.lines = []
+  }
+
+  public closePath(): void {
+    const line = this.lines[this.lines.length - 1]
+    if (line) line.push(line[0])
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.lines.push([this.map(x, y)])
+  }
+
+  public lineTo(x: number, y: number): void {
+    const line = this.lines[this.lines.length - 1]
+    if (line) {
+      line.push(this.map(x, y))
+    } else {
+      this.moveTo(x, y)
+    }
+  }
+
+  public quadraticCurveTo(cx: number, cy: number, x: number, y: number): void {
+    const line = this.lines[this.lines.length - 1]
+    if (!line) return this.moveTo(x, y)
+    const start = line[line.length - 1], control = this.map(cx, cy), end = this.map(x, y)
+    for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+      const t = i / CURVE_SEGMENTS, u = 1 - t
+      line.push({
+        x: u * u * start.x + 2 * u * t * control.x + t * t * end.x,
+        y: u * u * start.y + 2 * u * t * control.y + t * t * end.y
+      })
+    }
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.moveTo(x, y)
+    this.lineTo(x + width, y)
+    this.lineTo(x + width, y + height)
+    this.lineTo(x, y + height)
+    this.closePath()
+  }
+
+  public arc(x: number, y: number, radius: number, start: number, end: number, anticlockwise?: boolean): void {
+    this.ellipse(x, y, radius, radius, 0, start, end, anticlockwise)
+  }
+
+  public ellipse(
+    x: number,
+    y: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    start: number,
+    end: number,
+    anticlockwise: boolean = false
+  ): void {
+    let delta = anticlockwise ? start - end : end - start
+    if (delta < Math.PI * 2) delta = ((delta % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
+    delta = Math.min(delta, Math.PI * 2) * (anticlockwise ? -1 : 1)
+
+    const cos = Math.cos(rotation), sin = Math.sin(rotation)
+    const line: Point[] = []
+    for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+      const angle = start + delta * i / ELLIPSE_SEGMENTS
+      const px = rx * Math.cos(angle), py = ry * Math.sin(angle)
+      line.push(this.map(x + px * cos - py * sin, y + px * sin + py * cos))
+    }
+    this.lines.push(line)
+  }
+
+  public stroke(): void {
+    for (const points of this.lines) {
+      this.outline.strokes.push({ points, width: this.lineWidth })
+    }
+  }
+
+  public fill(): void {
+    for (const points of this.lines) {
+      if (points.length > 2) this.outline.fills.push(points)
+    }
+  }
+
+  public fillText(): void {
+    // 文字使用文字所在范围
+  }
+}
+
+/**
+ * 获取笔迹轮廓，文字使用文字所在范围
+ *
+ * @param history 历史记录
+ * @param canvas  用于测量文字的画布
+ */
+export function outlineOf(history: BrushHistory, canvas: CanvasRenderingContext2D): Outline {
+  if (history.configs.type === BrushType.text) {
+    const { x, y, width, height } = TextBrush.bounds(canvas, history)
+    const origin = { x, y }, angle = history.rotation ?? 0
+    const rect = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+    return { strokes: [], fills: [rect.map(p => rotatePoint(p, origin, angle))] }
+  }
+  const sampler = new OutlineSampler()
+  const painter = Brush.fromConfig(history.configs) as any as BrushPainter
+  painter.replay(sampler, history)
+  return sampler.outline
+}
+
+/**
+ * 轮廓的包围盒，包含线宽
+ *
+ * @param outline 笔迹轮廓
+ */
+export function boundsOf(outline: Outline): { left: number, top: number, right: number, bottom: number } {
+  let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity
+  const extend = (points: Point[], padding: number) => {
+    for (const p of points) {
+      left = Math.min(left, p.x - padding)
+      top = Math.min(top, p.y - padding)
+      right = Math.max(right, p.x + padding)
+      bottom = Math.max(bottom, p.y + padding)
+    }
+  }
+  outline.strokes.forEach(x => extend(x.points, x.width / 2))
+  outline.fills.forEach(x => extend(x, 0))
+  return { left, top, right, bottom }
+}
+
+/**
+ * 绕中心点旋转
+ *
+ * @param p      坐标
+ * @param center 中心点
+ * @param angle  旋转角度
+ */
+export function rotatePoint(p: Point, center: Point, angle: number): Point {
+  if (angle === 0) return { x: p.x, y: p.y }
+  const cos = Math.cos(angle), sin = Math.sin(angle)
+  const dx = p.x - center.x, dy = p.y - center.y
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos }
+}
+
+/** 点到线段的距离 */
+export function pointToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x, dy = b.y - a.y
+  const length = dx * dx + dy * dy
+  const t = length > 0 ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / length, 0), 1) : 0
+  return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy)
+}
+
+/** 两条线段之间的最短距离，相交时为 0 */
+export function segmentToSegment(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0
+  return Math.min(
+    pointToSegment(a, c, d),
+    pointToSegment(b, c, d),
+    pointToSegment(c, a, b),
+    pointToSegment(d, a, b)
+  )
+}
+
+/** 点是否在多边形内 */
+export function containsPoint(polygon: Point[], p: Point): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j]
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/** 两条线段是否相交 */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a), d2 = cross(c, d, b)
+  const d3 = cross(a, b, c), d4 = cross(a, b, d)
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))
+}
+
+/** 向量 OA 与 OB 的叉积 */
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
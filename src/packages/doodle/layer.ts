@@ -0,0 +1,221 @@
+import { Brush, type BrushConfigs, type BrushHistory, type BrushPainter } from './brush'
+
+/**
+ * 图层混合模式
+ *
+ * 与 CSS `mix-blend-mode` 取值一致，导出图片时 `normal` 对应 `source-over`，其余取值与 `globalCompositeOperation` 相同
+ *
+ * https://developer.mozilla.org/zh-CN/docs/Web/CSS/mix-blend-mode
+ */
+export type LayerBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten'
+  | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion' | 'hue'
+  | 'saturation' | 'color' | 'luminosity'
+
+/**
+ * 默认图层编号，默认图层使用组件提供的画布，不可删除
+ */
+export const DEFAULT_LAYER_ID = 'default'
+
+/**
+ * 图层配置
+ */
+export interface LayerConfigs {
+  /**
+   * 图层编号，在同一张画纸中唯一
+   */
+  id: string
+
+  /**
+   * 图层名称
+   */
+  name: string
+
+  /**
+   * 是否可见
+   */
+  visible: boolean
+
+  /**
+   * 图层不透明度 0 ~ 1
+   */
+  opacity: number
+
+  /**
+   * 混合模式
+   */
+  blendMode: LayerBlendMode
+}
+
+/**
+ * 可修改的图层配置
+ */
+export type LayerOptions = Partial<Omit<LayerConfigs, 'id'>>
+
+/**
+ * 图层，每个图层拥有独立的画布
+ *
+ * 图层画布是透明的，画笔的正片叠底无法与下方的底图和图层混合，因此正片叠底的笔迹（例如荧光笔）
+ * 绘制到紧贴在图层画布上方的正片叠底画布，显示和导出时都以正片叠底与下方内容混合。
+ * 正片叠底的笔迹总是位于同一图层其他笔迹的上方，像素橡皮擦同时擦除两个画布
+ */
+export class Layer {
+  /**
+   * 笔迹是否绘制到正片叠底画布
+   *
+   * @param configs 画笔配置
+   */
+  public static isMultiply(configs: BrushConfigs): boolean {
+    return configs.blendMode === 'multiply'
+  }
+
+  /**
+   * 图层配置
+   */
+  public readonly configs: LayerConfigs
+
+  /**
+   * 图层画布
+   */
+  public readonly canvas: CanvasRenderingContext2D
+
+  /**
+   * 正片叠底画布
+   */
+  public readonly multiplyCanvas: CanvasRenderingContext2D
+
+  /**
+   * 正片叠底画布上是否有笔迹，没有时不需要在其上重放橡皮擦
+   */
+  private multiplied: boolean = false
+
+  /**
+   * 构造图层
+   *
+   * @param configs         图层配置
+   * @param canvasElement   图层画布
+   * @param multiplyElement 正片叠底画布
+   */
+  public constructor(configs: LayerConfigs, canvasElement: HTMLCanvasElement, multiplyElement: HTMLCanvasElement) {
+    this.configs = configs
+    this.canvas = canvasElement.getContext('2d')!
+    this.multiplyCanvas = multiplyElement.getContext('2d')!
+  }
+
+  /** 图层编号 */
+  public get id(): string {
+    return this.configs.id
+  }
+
+  /** 图层画布和正片叠底画布 */
+  public get elements(): HTMLCanvasElement[] {
+    return [this.canvas.canvas, this.multiplyCanvas.canvas]
+  }
+
+  /**
+   * 笔迹绘制的画布
+   *
+   * @param configs 画笔配置
+   */
+  public canvasFor(configs: BrushConfigs): CanvasRenderingContext2D {
+    return Layer.isMultiply(configs) ? this.multiplyCanvas : this.canvas
+  }
+
+  /**
+   * 清空图层画布和正片叠底画布
+   */
+  public clear(): void {
+    this.canvas.clearRect(0, 0, this.canvas.canvas.width, this.canvas.canvas.height)
+    this.multiplyCanvas.clearRect(0, 0, this.multiplyCanvas.canvas.width, this.multiplyCanvas.canvas.height)
+    this.multiplied = false
+  }
+
+  /**
+   * 重放一笔，正片叠底的笔迹绘制到正片叠底画布，像素橡皮擦同时擦除正片叠底画布
+   *
+   * @param history 历史记录
+   * @param base    是否绘制到图层画布，图层画布已经包含这一笔时（例如从快照恢复或者直接绘制到图层）为 `false`
+   */
+  public replay(history: BrushHistory, base: boolean = true): void {
+    const configs = history.configs
+    const multiply = Layer.isMultiply(configs)
+    const erase = this.multiplied && configs.blendMode === 'destination-out'
+    if (!multiply && !base && !erase) return
+
+    const painter = Brush.fromConfig(configs) as any as BrushPainter
+    if (multiply) {
+      painter.replay(this.multiplyCanvas, history)
+      this.multiplied = true
+      return
+    }
+    if (base) painter.replay(this.canvas, history)
+    if (erase) painter.replay(this.multiplyCanvas, history)
+  }
+
+  /**
+   * 将图层配置应用到画布样式，正片叠底画布紧贴在图层画布上方
+   *
+   * @param opacity 画纸整体不透明度
+   * @param zIndex  图层层级，正片叠底画布使用下一个层级
+   */
+  public applyStyle(opacity: number, zIndex: number): void {
+    this.applyStyleTo(this.canvas.canvas, opacity, zIndex)
+    this.applyStyleTo(this.multiplyCanvas.canvas, opacity, zIndex + 1, 'multiply')
+  }
+
+  /**
+   * 将图层配置应用到指定画布的样式，预览画布使用当前图层的样式
+   *
+   * @param canvas    画布
+   * @param opacity   画纸整体不透明度
+   * @param zIndex    层级
+   * @param blendMode 混合模式，默认为图层的混合模式
+   */
+  public applyStyleTo(
+    canvas: HTMLCanvasElement,
+    opacity: number,
+    zIndex: number,
+    blendMode: LayerBlendMode = this.configs.blendMode
+  ): void {
+    const style = canvas.style
+    style.display = this.configs.visible ? 'block' : 'none'
+    style.opacity = (this.configs.opacity * opacity).toString()
+    style.mixBlendMode = blendMode
+    style.zIndex = zIndex.toString()
+  }
+
+  /**
+   * 按图层的不透明度和混合模式将图层绘制到画布，用于导出
+   *
+   * @param canvas 目标画布，尺寸应与涂鸦一致
+   */
+  public drawTo(canvas: CanvasRenderingContext2D): void {
+    if (!this.configs.visible) return
+    const width = canvas.canvas.width, height = canvas.canvas.height
+    canvas.save()
+    try {
+      canvas.globalAlpha = this.configs.opacity
+      canvas.globalCompositeOperation = toCompositeOperation(this.configs.blendMode)
+      canvas.drawImage(this.canvas.canvas, 0, 0, width, height)
+      canvas.globalCompositeOperation = 'multiply'
+      canvas.drawImage(this.multiplyCanvas.canvas, 0, 0, width, height)
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  /**
+   * 导出配置
+   */
+  public toConfigs(): LayerConfigs {
+    return { ...this.configs }
+  }
+}
+
+/**
+ * 将图层混合模式转换为画布混合模式
+ *
+ * @param mode 图层混合模式
+ */
+export function toCompositeOperation(mode: LayerBlendMode): GlobalCompositeOperation {
+  return mode === 'normal' ? 'source-over' : mode
+}
@@ -1,10 +1,47 @@
-import { Brush, BrushHistory, type BrushPainter, MarkingBrush, TimePoint } from './brush'
+import {
+  Brush,
+  BrushHistory,
+  type BrushPainter,
+  BrushType,
+  EraserBrush,
+  FillBrush,
+  MarkingBrush,
+  SelectBrush,
+  TextBrush,
+  TimePoint
+} from './brush'
+import { CheckpointCache, type CheckpointOptions } from './checkpoint'
+import { type Command, CommandStack } from './command'
+import { TextEditor } from './editor'
+import { EventEmitter, type EventListener } from './emitter'
+import { VectorEraser } from './erase'
+import { floodFill, type FillMask } from './fill'
+import { DEFAULT_LAYER_ID, Layer, type LayerConfigs, type LayerOptions } from './layer'
+import { type ReplayOptions, type ReplayState, ReplayTimeline } from './playback'
+import {
+  assertBrushTypes,
+  deserializeHistory,
+  isSerializedHistory,
+  type SerializedPaperHistory
+} from './serializer'
+import { containsPoint, outlineOf, type Point } from './geometry'
+import { Selection, type SelectionHandle, type SelectionTransform } from './selection'
+import { type KeyMap, matchShortcut, type ShortcutAction } from './shortcut'
+import { exportSvg } from './svg'
 
 /**
  * 导入的用户图片
  */
 export type InputImage = HTMLImageElement | ImageBitmap
 
+/**
+ * 输入模式
+ *
+ * `any`: 单个指针均可绘制。
+ * `stylus-only`: 手指只能移动和缩放，触控笔和鼠标绘制。
+ */
+export type InputMode = 'any' | 'stylus-only'
+
 /** 导出的历史记录 */
 export interface PaperHistory {
   /** 画布宽度 */
@@ -14,7 +51,98 @@ export interface PaperHistory {
   height: number,
 
   /** 历史记录 */
-  histories: BrushHistory []
+  histories: BrushHistory [],
+
+  /** 图层列表，从下到上排列，为空时仅包含默认图层 */
+  layers?: LayerConfigs[]
+}
+
+/** 画纸配置 */
+export interface PaperOptions {
+  /** 栅格快照配置，用于加速撤销和重绘 */
+  checkpoint?: CheckpointOptions
+
+  /** 最大撤销深度，超出时丢弃最早的操作，默认不限制 */
+  undoDepth?: number
+
+  /**
+   * 快捷键映射，未配置的操作使用默认按键，为空时禁用所有快捷键，默认禁用
+   *
+   * 仅在画纸获得焦点时响应，焦点位于输入框或可编辑元素时忽略
+   */
+  keyMap?: KeyMap
+
+  /** 是否启用滚轮，按住 Ctrl 滚动或触控板捏合时缩放，放大后滚动时移动画布，默认为 `false` */
+  wheel?: boolean
+
+  /** 输入模式，默认为 `any` */
+  inputMode?: InputMode
+
+  /** 是否启用防误触，忽略大面积接触的手掌，以及触控笔按下期间的手指，默认为 `true` */
+  palmRejection?: boolean
+}
+
+/** 画布变换，`scale` 为 1 且偏移为 0 时居中显示 */
+export interface PaperTransform {
+  /** 用户缩放比例 */
+  scale: number
+
+  /** 相对居中位置的横向偏移，单位为 CSS 像素 */
+  x: number
+
+  /** 相对居中位置的纵向偏移，单位为 CSS 像素 */
+  y: number
+}
+
+/** 撤销重做状态 */
+export interface HistoryState {
+  /** 是否允许撤销操作 */
+  canUndo: boolean
+
+  /** 是否允许重做操作 */
+  canRedo: boolean
+}
+
+/** 画纸事件及其参数 */
+export interface PaperEventMap {
+  /** 开始绘制一笔 */
+  'stroke-start': []
+
+  /** 完成一笔并添加到历史记录，取消的笔迹不会触发 */
+  'stroke-end': [history: BrushHistory]
+
+  /** 历史记录发生变化 */
+  'history-change': [state: HistoryState]
+
+  /** 画布移动或缩放 */
+  'transform-change': [transform: PaperTransform]
+
+  /** 回放状态发生变化，播放过程中每一帧都会触发 */
+  'replay-change': [state: ReplayState]
+
+  /** 选中的笔迹发生变化 */
+  'selection-change': [selection: BrushHistory[]]
+
+  /** 发生错误 */
+  'error': [error: unknown]
+}
+
+/** 导出图片配置 */
+export interface ExportOptions {
+  /** 图片格式，默认为 `image/png`，Safari 浏览器不支持 `image/webp` */
+  type?: 'image/png' | 'image/jpeg' | 'image/webp'
+
+  /** 图片质量，图片为 png 时不可用，取值范围 0 ~ 1 */
+  quality?: number
+
+  /** 相对底图原始分辨率的缩放比例，默认为 1 */
+  scale?: number
+
+  /** 是否包含底图，默认为 `true` */
+  includeImage?: boolean
+
+  /** 背景颜色，CSS 颜色值，默认透明；jpeg 不支持透明，默认使用白色 */
+  background?: string
 }
 
 /**
@@ -27,8 +155,20 @@ export class Paper {
   /** 画布父布局 */
   private readonly parent: HTMLElement
 
-  /** 画布 */
-  private readonly canvas: CanvasRenderingContext2D
+  /** 图层列表，从下到上排列，第一个默认为默认图层 */
+  private readonly layerList: Layer[]
+
+  /** 笔迹预览画布，紧贴在当前图层上方并使用相同的样式，用于绘制过程中的预览 */
+  private readonly previewCanvas: CanvasRenderingContext2D
+
+  /** 辅助画布，位于所有图层上方，用于绘制选择框 */
+  private readonly overlay: CanvasRenderingContext2D
+
+  /** 栅格快照缓存 */
+  private readonly checkpoints: CheckpointCache
+
+  /** 事件分发器 */
+  private readonly emitter: EventEmitter<PaperEventMap> = new EventEmitter()
 
   /** 用户涂鸦底图 */
   private readonly image: InputImage
@@ -39,18 +179,45 @@ export class Paper {
   /** 用户历史记录 */
   private readonly histories: BrushHistory[]
 
-  /** 用户重做历史记录 */
-  private readonly redoHistories: BrushHistory[]
+  /** 撤销栈 */
+  private readonly commands: CommandStack
+
+  /** 每一笔在历史记录中的排序，撤销和重做时按排序插回原来的位置 */
+  private readonly orders: WeakMap<BrushHistory, number> = new WeakMap()
+
+  /** 下一笔的排序 */
+  private nextOrder: number = 0
+
+  /** 回放动画控制器 */
+  private readonly replayCtrl: AnimationController = new AnimationController()
 
   /** 动画控制器 */
   private readonly animCtrl: AnimationController
 
   /** 最大缩放比例 */
-  private readonly maxScale: number
+  private _maxScale: number
 
   /** 窗口监听 */
   private readonly windowListener: () => void
 
+  /** 根布局指针监听 */
+  private readonly pointerListener: (evt: PointerEvent) => void
+
+  /** 根布局键盘监听，用于检测空格键和快捷键 */
+  private readonly keyListener: (evt: KeyboardEvent) => void
+
+  /** 滚轮监听 */
+  private readonly wheelListener: (evt: WheelEvent) => void
+
+  /** 窗口或根布局失焦监听 */
+  private readonly blurListener: () => void
+
+  /** 活动中的指针，键为 `pointerId`，值为相对根布局的坐标 */
+  private readonly pointers: Map<number, Offset> = new Map()
+
+  /** 插入画布父布局的底图元素 */
+  private imageElement!: HTMLElement
+
   /** 涂鸦宽度 */
   private width!: number
 
@@ -69,9 +236,60 @@ export class Paper {
   /** 最后一次缩放中心点 */
   private lastScaleFocus: Offset = { x: 0, y: 0 }
 
+  /** 当前绘制的图层编号 */
+  private activeLayerId: string = DEFAULT_LAYER_ID
+
+  /** 画纸整体不透明度 */
+  private opacity: number = 1
+
   /** 工作模式，0 表示不工作，1 表示绘制模式，2 表示移动缩放模式 */
   private workMode: number = 0
 
+  /** 快捷键映射，为空时禁用快捷键 */
+  private _keyMap: KeyMap | undefined
+
+  /** 是否启用滚轮 */
+  private _wheel: boolean
+
+  /** 输入模式 */
+  private _inputMode: InputMode
+
+  /** 是否启用防误触 */
+  private _palmRejection: boolean
+
+  /** 按下的指针类型 */
+  private readonly pointerTypes: Map<number, string> = new Map()
+
+  /** 可能成为点击的单指触摸，移动超出范围或出现第二个指针时取消 */
+  private tap?: TapRecord
+
+  /** 上一次单指点击，用于识别双击 */
+  private lastTap?: TapRecord
+
+  /** 移动模式下最近的位置采样，用于计算松手时的速度 */
+  private readonly panSamples: TapRecord[] = []
+
+  /** 当前的惯性滑动，停止后动画帧不再生效 */
+  private fling?: object
+
+  /** 空格键是否按下，按下时鼠标拖拽为移动模式 */
+  private spacePressed: boolean = false
+
+  /** 文字编辑框 */
+  private textEditor?: TextEditor
+
+  /** 当前回放 */
+  private replaySession?: ReplaySession
+
+  /** 正在编辑的文字，重绘时跳过 */
+  private editingText?: BrushHistory
+
+  /** 选中的笔迹 */
+  private selected?: Selection
+
+  /** 正在拖拽的选择框，拖拽期间选中的笔迹绘制在预览画布上 */
+  private selectionDrag?: SelectionDrag
+
   /** 兼容新浏览器大小调整时监听 */
   private resizeObserver?: ResizeObserver
 
@@ -83,8 +301,9 @@ export class Paper {
    * @param canvasElement 涂鸦板涂鸦画布
    * @param image         涂鸦底图，如果图片格式为 `HTMLImageElement` 必须已经加载图片完成，且加载成功
    * @param maxScale      最大缩放比例，取值范围 [1.5 ~ 3]
-   * @param history       用户历史记录，如果不存在，则创建新的记录
    * @param brush         默认画笔
+   * @param history       用户历史记录，支持序列化后的格式，如果不存在，则创建新的记录
+   * @param options       画纸配置
    */
   public constructor(
     root: HTMLElement,
@@ -93,30 +312,53 @@ export class Paper {
     image: InputImage,
     maxScale: number = 2,
     brush?: Brush,
-    history?: PaperHistory
+    history?: PaperHistory | SerializedPaperHistory,
+    options?: PaperOptions
   ) {
     const self = this
+    if (history && isSerializedHistory(history)) {
+      history = deserializeHistory(history)
+    } else if (history) {
+      assertBrushTypes(history)
+    }
     this.root = root
     this.parent = parent
-    this.canvas = canvasElement.getContext('2d')!
+    this.layerList = [new Layer(Paper.defaultLayerConfigs(), canvasElement, this.createCanvas())]
     this.image = image
     this.animCtrl = new AnimationController()
     this.position = { oScale: 1, ox: 0, oy: 0, scale: 1, x: 0, y: 0, width: 0, height: 0 }
     this.brush = brush ?? new MarkingBrush()
     this.histories = history?.histories || []
-    this.redoHistories = []
-    this.maxScale = clampNumber(maxScale, 1.5, 3)
+    this.commands = new CommandStack(options?.undoDepth)
+    this._keyMap = options?.keyMap
+    this._wheel = options?.wheel ?? false
+    this._inputMode = options?.inputMode ?? 'any'
+    this._palmRejection = options?.palmRejection ?? true
+    this._maxScale = clampNumber(maxScale, 1.5, 3)
     this.windowListener = () => Paper.onResize(self)
+    this.pointerListener = (evt) => Paper.onPointer(self, evt)
+    this.keyListener = (evt) => Paper.onKey(self, evt)
+    this.wheelListener = (evt) => Paper.onWheel(self, evt)
+    this.blurListener = () => Paper.onBlur(self)
 
     this.initImageAndCanvas()
+    this.previewCanvas = this.createCanvas().getContext('2d')!
+    this.previewCanvas.canvas.style.pointerEvents = 'none'
+    this.overlay = this.createCanvas().getContext('2d')!
+    this.overlay.canvas.style.pointerEvents = 'none'
+    this.checkpoints = new CheckpointCache(this.width, this.height, options?.checkpoint)
     this.initListeners()
     this.loadSizeAndPosition()
 
     // 如果尺寸不符合，删除历史记录
     if (history && (history.width !== this.width || history.height !== this.height)) {
       this.histories.splice(0)
+    } else {
+      this.loadLayers(history?.layers ?? [])
     }
 
+    this.resetUndoStack()
+    this.updateLayers()
     this.updateState()
     this.redraw()
   }
@@ -126,49 +368,465 @@ export class Paper {
     return this.brush
   }
 
-  /** 设置当前笔刷 */
+  /** 设置当前笔刷，切换到选择工具以外的笔刷时取消选中 */
   public set currentBrush(brush: Brush) {
     this.brush = brush
+    if (!(brush instanceof SelectBrush)) this.clearSelection()
+    this.updateLayers()
   }
 
   /** 是否允许撤销操作 */
   public get canUndo(): boolean {
-    return this.histories.length > 0
+    return this.commands.canUndo
   }
 
   /** 执行撤销操作，如果执行失败返回 `false` */
   public undo(): boolean {
-    if (!this.canUndo) return false
-    const item = this.histories.pop()
-    if (!item) return false
-    this.redoHistories.push(item)
-    this.redraw() // 执行重绘
+    this.stopReplay()
+    this.textEditor?.commit()
+    this.clearSelection()
+    if (!this.commands.undo()) return false
+    this.notifyHistoryChange()
     return true
   }
 
   /** 是否允许重做操作 */
   public get canRedo(): boolean {
-    return this.redoHistories.length > 0
+    return this.commands.canRedo
   }
 
   /** 执行重做操作，如果执行失败返回 `false` */
   public redo(): boolean {
-    if (!this.canRedo) return false
-    const item = this.redoHistories.pop()
-    if (!item) return false
-    this.histories.push(item)
-    this.redraw() // 执行重绘
+    this.stopReplay()
+    this.textEditor?.commit()
+    this.clearSelection()
+    if (!this.commands.redo()) return false
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /** 最大撤销深度 */
+  public get undoDepth(): number {
+    return this.commands.maxDepth
+  }
+
+  /** 设置最大撤销深度，超出部分丢弃最早的操作 */
+  public set undoDepth(depth: number) {
+    this.commands.maxDepth = depth
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * 将回调中的所有操作合并为一次撤销，回调抛出异常时撤销已经执行的操作，嵌套调用时合并到最外层
+   *
+   * @param callback 回调
+   * @return 回调的返回值
+   */
+  public transaction<T>(callback: () => T): T {
+    this.commands.begin()
+    let result: T
+    try {
+      result = callback()
+    } catch (error) {
+      this.clearSelection()
+      this.commands.rollback()
+      this.notifyHistoryChange()
+      throw error
+    }
+    this.commands.commit()
+    this.notifyHistoryChange()
+    return result
+  }
+
+  /** 清空所有图层的笔迹，可以撤销，如果没有笔迹返回 `false` */
+  public clear(): boolean {
+    this.stopReplay()
+    this.textEditor?.commit()
+    if (this.histories.length === 0) return false
+    this.cleanCurrentDraw()
+    this.clearSelection()
+    this.commitChange({ removed: [...this.histories], added: [] }).forEach(id => this.redraw(id))
+    this.notifyHistoryChange()
     return true
   }
 
+  /** 快捷键映射 */
+  public get keyMap(): KeyMap | undefined {
+    return this._keyMap
+  }
+
+  /** 设置快捷键映射，未配置的操作使用默认按键，为空时禁用所有快捷键 */
+  public set keyMap(keyMap: KeyMap | undefined) {
+    this._keyMap = keyMap
+  }
+
+  /** 是否启用滚轮 */
+  public get wheel(): boolean {
+    return this._wheel
+  }
+
+  /** 设置是否启用滚轮缩放和移动 */
+  public set wheel(wheel: boolean) {
+    this._wheel = wheel
+  }
+
+  /** 输入模式 */
+  public get inputMode(): InputMode {
+    return this._inputMode
+  }
+
+  /** 设置输入模式，`stylus-only` 时手指只能移动和缩放 */
+  public set inputMode(mode: InputMode) {
+    this._inputMode = mode
+  }
+
+  /** 是否启用防误触 */
+  public get palmRejection(): boolean {
+    return this._palmRejection
+  }
+
+  /** 设置是否启用防误触 */
+  public set palmRejection(enabled: boolean) {
+    this._palmRejection = enabled
+  }
+
+  /** 最大缩放比例 */
+  public get maxScale(): number {
+    return this._maxScale
+  }
+
+  /** 设置最大缩放比例，取值范围 [1.5 ~ 3]，当前缩放超出时会恢复到范围内 */
+  public set maxScale(maxScale: number) {
+    this._maxScale = clampNumber(maxScale, 1.5, 3)
+    if (this.position.scale > this._maxScale && this.workMode !== 2) {
+      this.animCtrl.reset()
+      this.lastScaleFocus = { x: this.root.offsetWidth / 2, y: this.root.offsetHeight / 2 }
+      this.overBound()
+    }
+  }
+
   /** 获取画笔透明度 */
   public get canvasOpacity(): number {
-    return parseFloat(this.canvas.canvas.style.opacity) || 1.0
+    return this.opacity
   }
 
-  /** 设置画布透明度 */
+  /** 设置画布透明度，作用于所有图层 */
   public set canvasOpacity(opacity: number) {
-    this.canvas.canvas.style.opacity = clampNumber(opacity, 0.0, 1.0).toString()
+    this.opacity = clampNumber(opacity, 0.0, 1.0)
+    this.updateLayers()
+  }
+
+  /** 图层列表，从下到上排列 */
+  public get layers(): LayerConfigs[] {
+    return this.layerList.map(x => x.toConfigs())
+  }
+
+  /** 当前绘制的图层编号 */
+  public get activeLayer(): string {
+    return this.activeLayerId
+  }
+
+  /** 设置当前绘制的图层，图层不存在时忽略 */
+  public set activeLayer(id: string) {
+    if (!this.findLayer(id) || id === this.activeLayerId) return
+    this.cleanCurrentDraw()
+    this.clearSelection()
+    this.activeLayerId = id
+    this.updateLayers()
+  }
+
+  /**
+   * 在最上方添加图层，并设为当前绘制的图层
+   *
+   * @param options 图层配置
+   * @return 新图层编号
+   */
+  public addLayer(options?: LayerOptions): string {
+    const layer = this.createLayer({
+      id: this.generateLayerId(),
+      name: options?.name ?? `Layer ${this.layerList.length + 1}`,
+      visible: options?.visible ?? true,
+      opacity: clampNumber(options?.opacity ?? 1, 0, 1),
+      blendMode: options?.blendMode ?? 'normal'
+    })
+    const index = this.layerList.length, previous = this.activeLayerId
+    this.commands.execute({
+      do: () => {
+        this.attachLayer(layer, index)
+        this.activeLayer = layer.id
+      },
+      undo: () => {
+        this.detachLayer(layer)
+        this.activeLayer = previous
+      }
+    })
+    this.notifyHistoryChange()
+    return layer.id
+  }
+
+  /**
+   * 删除图层以及图层上的所有笔迹，默认图层不可删除
+   *
+   * @param id 图层编号
+   * @return 删除失败返回 `false`
+   */
+  public removeLayer(id: string): boolean {
+    const layer = this.findLayer(id)
+    if (!layer || id === DEFAULT_LAYER_ID) return false
+
+    this.clearSelection()
+    const index = this.layerList.indexOf(layer), active = this.activeLayerId === id
+    const change: HistoryChange = { removed: this.histories.filter(x => this.layerOf(x) === id), added: [] }
+    this.commands.execute({
+      do: () => {
+        this.detachLayer(layer)
+        this.applyChange(change)
+        this.checkpoints.invalidate(id)
+      },
+      undo: () => {
+        this.attachLayer(layer, index)
+        this.applyChange(change, true)
+        this.redraw(id)
+        if (active) this.activeLayer = id
+      }
+    })
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /**
+   * 修改图层配置
+   *
+   * @param id      图层编号
+   * @param options 需要修改的配置
+   * @return 图层不存在时返回 `false`
+   */
+  public updateLayer(id: string, options: LayerOptions): boolean {
+    const layer = this.findLayer(id)
+    if (!layer) return false
+    const before = layer.toConfigs(), after = layer.toConfigs()
+    if (options.name !== undefined) after.name = options.name
+    if (options.visible !== undefined) after.visible = options.visible
+    if (options.opacity !== undefined) after.opacity = clampNumber(options.opacity, 0, 1)
+    if (options.blendMode !== undefined) after.blendMode = options.blendMode
+    if (Object.keys(after).every(x => after[x as keyof LayerConfigs] === before[x as keyof LayerConfigs])) {
+      return true
+    }
+
+    this.commands.execute({
+      do: () => {
+        Object.assign(layer.configs, after)
+        this.updateLayers()
+      },
+      undo: () => {
+        Object.assign(layer.configs, before)
+        this.updateLayers()
+      }
+    })
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /**
+   * 调整图层顺序
+   *
+   * @param id    图层编号
+   * @param index 目标位置，0 为最下方
+   * @return 图层不存在时返回 `false`
+   */
+  public moveLayer(id: string, index: number): boolean {
+    const layer = this.findLayer(id)
+    if (!layer) return false
+    const from = this.layerList.indexOf(layer)
+    const to = clampNumber(Math.floor(index), 0, this.layerList.length - 1)
+    if (from === to) return true
+
+    this.commands.execute({
+      do: () => {
+        this.detachLayer(layer)
+        this.attachLayer(layer, to)
+      },
+      undo: () => {
+        this.detachLayer(layer)
+        this.attachLayer(layer, from)
+      }
+    })
+    this.notifyHistoryChange()
+    return true
+  }
+
+  /**
+   * 载入历史记录，替换当前所有图层和笔迹，并清空重做历史
+   *
+   * @param history 历史记录，支持序列化后的格式，格式不正确或包含未注册的画笔类型时抛出异常
+   * @return 历史记录尺寸与底图不一致时返回 `false`
+   */
+  public loadHistory(history: PaperHistory | SerializedPaperHistory): boolean {
+    const data = isSerializedHistory(history) ? deserializeHistory(history) : history
+    assertBrushTypes(data)
+    if (data.width !== this.width || data.height !== this.height) return false
+    this.replaceDocument(data.histories, data.layers ?? [])
+    return true
+  }
+
+  /** 删除所有笔迹和图层，并清空撤销和重做历史，恢复到新建画纸时的状态，不可撤销 */
+  public reset(): void {
+    this.replaceDocument([], [])
+  }
+
+  /** 回放状态 */
+  public get replayState(): ReplayState {
+    const session = this.replaySession
+    return {
+      active: session !== undefined,
+      playing: session?.playing ?? false,
+      time: session?.time ?? 0,
+      duration: session?.timeline.duration ?? 0
+    }
+  }
+
+  /**
+   * 从头开始回放所有笔迹，回放期间只能移动和缩放画布，播放完成后自动结束回放
+   *
+   * @param options 回放配置
+   * @return 回放总时长，单位为毫秒
+   */
+  public replay(options?: ReplayOptions): number {
+    this.stopReplay()
+    this.textEditor?.commit()
+    this.cleanCurrentDraw()
+    this.clearSelection()
+    this.workMode = 0
+
+    const speed = options?.speed !== undefined && options.speed > 0 ? options.speed : 1
+    const timeline = new ReplayTimeline(this.histories.filter(x => x.valid), options?.maxGap ?? 1000)
+    this.replaySession = { timeline, speed, time: 0, playing: false, drawn: 0, run: 0 }
+    this.layerList.forEach(x => x.clear())
+    this.resumeReplay()
+    return timeline.duration
+  }
+
+  /** 暂停回放，如果没有正在播放的回放返回 `false` */
+  public pauseReplay(): boolean {
+    const session = this.replaySession
+    if (!session?.playing) return false
+    session.playing = false
+    session.run++
+    this.replayCtrl.reset()
+    this.notifyReplayChange()
+    return true
+  }
+
+  /** 从当前位置继续回放，如果没有暂停的回放返回 `false` */
+  public resumeReplay(): boolean {
+    const session = this.replaySession
+    if (!session || session.playing) return false
+    const from = session.time, duration = session.timeline.duration
+    if (from >= duration) {
+      this.renderReplay(session, duration)
+      this.stopReplay()
+      return true
+    }
+
+    const self = this, run = ++session.run
+    const isCurrent = () => self.replaySession === session && session.run === run
+    session.playing = true
+    this.replayCtrl.execute(
+      (duration - from) / session.speed,
+      (_, value) => {
+        if (!isCurrent()) return
+        self.renderReplay(session, from + (duration - from) * value)
+        self.notifyReplayChange()
+      },
+      () => {
+        if (isCurrent()) self.stopReplay()
+      }
+    )
+    this.notifyReplayChange()
+    return true
+  }
+
+  /**
+   * 跳转到指定位置，保持当前的播放或暂停状态
+   *
+   * @param time 播放位置，单位为毫秒
+   * @return 如果不在回放中返回 `false`
+   */
+  public seekReplay(time: number): boolean {
+    const session = this.replaySession
+    if (!session) return false
+    const playing = session.playing
+    if (playing) {
+      session.playing = false
+      session.run++
+      this.replayCtrl.reset()
+    }
+    this.renderReplay(session, clampNumber(time, 0, session.timeline.duration))
+    if (playing) {
+      this.resumeReplay()
+    } else {
+      this.notifyReplayChange()
+    }
+    return true
+  }
+
+  /** 结束回放并恢复完整的涂鸦，如果不在回放中返回 `false` */
+  public stopReplay(): boolean {
+    const session = this.replaySession
+    if (!session) return false
+    session.playing = false
+    session.run++
+    this.replayCtrl.reset()
+    this.replaySession = undefined
+    this.redraw()
+    this.notifyReplayChange()
+    return true
+  }
+
+  /** 选中的笔迹，使用选择工具框选当前图层的笔迹 */
+  public get selection(): BrushHistory[] {
+    return this.selected?.items.slice() ?? []
+  }
+
+  /** 删除选中的笔迹，如果没有选中的笔迹返回 `false` */
+  public deleteSelection(): boolean {
+    const selection = this.selected
+    if (!selection) return false
+    this.cancelSelectionDrag()
+    this.selected = undefined
+    this.commitChange({ removed: selection.items, added: [] }).forEach(id => this.redraw(id))
+    this.clearOverlay()
+    this.notifyHistoryChange()
+    this.notifySelectionChange()
+    return true
+  }
+
+  /**
+   * 修改选中笔迹的颜色
+   *
+   * @param color 颜色，例如 `0xFF0000`
+   * @param alpha 透明度，取值范围 0 ~ 1，为空时保持不变
+   * @return 如果没有选中的笔迹返回 `false`
+   */
+  public recolorSelection(color: number, alpha?: number): boolean {
+    if (!this.selected) return false
+    this.cancelSelectionDrag()
+    this.replaceSelection(item => {
+      const copy = item.clone()
+      copy.configs.color = color
+      if (alpha !== undefined) copy.configs.alpha = clampNumber(alpha, 0, 1)
+      return copy
+    })
+    return true
+  }
+
+  /** 取消选中 */
+  public clearSelection(): void {
+    if (!this.selected) return
+    this.cancelSelectionDrag()
+    this.selected = undefined
+    this.clearOverlay()
+    this.notifySelectionChange()
   }
 
   /** 导出历史记录 */
@@ -176,17 +834,144 @@ export class Paper {
     return {
       width: this.width,
       height: this.height,
-      histories: this.histories.map(x => x.clone())
+      histories: this.histories.map(x => x.clone()),
+      layers: this.layers
     }
   }
 
   /**
-   * 返回一个包含涂鸦的 Data URI
+   * 返回一个包含涂鸦的 Data URI，所有可见图层会合并到一张图片中
    * @param type 图片格式，Safari 浏览器不支持 `image/webp`
    * @param quality 图片质量，图片为 png 时不可用，取值范围 0 ~ 1
    */
   public toDataURL(type: 'image/png' | 'image/webp', quality?: any): string {
-    return this.canvas.canvas.toDataURL(type, quality)
+    const canvas = document.createElement('canvas')
+    canvas.width = this.width
+    canvas.height = this.height
+    this.drawLayers(canvas.getContext('2d')!)
+    return canvas.toDataURL(type, quality)
+  }
+
+  /**
+   * 将所有可见图层导出为 SVG 字符串
+   *
+   * @param includeImage 是否嵌入底图，默认为 `true`
+   */
+  public toSVG(includeImage: boolean = true): string {
+    return exportSvg(this.exportHistory(), { image: includeImage ? this.image : undefined })
+  }
+
+  /**
+   * 将底图和所有可见图层合并导出为 Blob
+   *
+   * @param options 导出配置
+   */
+  public toBlob(options?: ExportOptions): Promise<Blob> {
+    const canvas = this.flatten(options)
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => blob ? resolve(blob) : reject(new Error('Export Error.')),
+        options?.type ?? 'image/png',
+        options?.quality
+      )
+    }).catch((error) => this.rethrow(error))
+  }
+
+  /**
+   * 将底图和所有可见图层合并导出为 ImageBitmap
+   *
+   * @param options 导出配置，忽略图片格式和质量
+   */
+  public toImageBitmap(options?: ExportOptions): Promise<ImageBitmap> {
+    return createImageBitmap(this.flatten(options)).catch((error) => this.rethrow(error))
+  }
+
+  /**
+   * 添加事件监听
+   *
+   * @param type     事件名称
+   * @param listener 监听器
+   */
+  public on<K extends keyof PaperEventMap>(type: K, listener: EventListener<PaperEventMap[K]>): void {
+    this.emitter.on(type, listener)
+  }
+
+  /**
+   * 移除事件监听
+   *
+   * @param type     事件名称
+   * @param listener 监听器
+   */
+  public off<K extends keyof PaperEventMap>(type: K, listener: EventListener<PaperEventMap[K]>): void {
+    this.emitter.off(type, listener)
+  }
+
+  /** 获取当前画布变换 */
+  public getTransform(): PaperTransform {
+    return { scale: this.position.scale, x: this.position.x, y: this.position.y }
+  }
+
+  /**
+   * 设置画布变换，缩放比例和偏移会被限制在范围内
+   *
+   * @param transform 画布变换
+   * @param animate   是否播放动画，默认为 `false`
+   */
+  public setTransform(transform: PaperTransform, animate: boolean = false): void {
+    this.transformTo(transform.x, transform.y, transform.scale, animate)
+  }
+
+  /**
+   * 以指定位置为中心缩放
+   *
+   * @param scale   缩放比例，取值范围 [1 ~ maxScale]
+   * @param focus   缩放中心，相对浏览器视口的坐标，与 `clientX`、`clientY` 一致，默认为画纸中心
+   * @param animate 是否播放动画，默认为 `true`
+   */
+  public zoomTo(scale: number, focus?: Point, animate: boolean = true): void {
+    const rect = this.root.getBoundingClientRect()
+    const center = focus
+      ? { x: focus.x - rect.left, y: focus.y - rect.top }
+      : { x: rect.width / 2, y: rect.height / 2 }
+    const scaleTo = clampNumber(scale, 1, this._maxScale)
+    const offset = this.computeScaleOffset(center, scaleTo / this.position.scale)
+    this.transformTo(this.position.x + offset.x, this.position.y + offset.y, scaleTo, animate)
+  }
+
+  /**
+   * 移动画布，偏移会被限制在范围内
+   *
+   * @param dx      横向移动距离，单位为 CSS 像素
+   * @param dy      纵向移动距离，单位为 CSS 像素
+   * @param animate 是否播放动画，默认为 `false`
+   */
+  public panBy(dx: number, dy: number, animate: boolean = false): void {
+    this.transformTo(this.position.x + dx, this.position.y + dy, this.position.scale, animate)
+  }
+
+  /**
+   * 将浏览器视口坐标转换为底图像素坐标
+   *
+   * @param x 横坐标，与 `clientX` 一致
+   * @param y 纵坐标，与 `clientY` 一致
+   */
+  public screenToImage(x: number, y: number): Point {
+    const rect = this.root.getBoundingClientRect()
+    const point = this.relativePositionToTimePoint(x - rect.left, y - rect.top)
+    return { x: point.x, y: point.y }
+  }
+
+  /**
+   * 将底图像素坐标转换为浏览器视口坐标
+   *
+   * @param x 底图横坐标
+   * @param y 底图纵坐标
+   */
+  public imageToScreen(x: number, y: number): Point {
+    const rect = this.root.getBoundingClientRect()
+    const p = this.position
+    const scale = p.oScale * p.scale
+    return { x: rect.left + p.ox + p.x + x * scale, y: rect.top + p.oy + p.y + y * scale }
   }
 
   /** 居中显示（动画） */
@@ -195,24 +980,57 @@ export class Paper {
     this.animateTo(0, 0, 1, 200)
   }
 
-  /** 销毁 */
+  /** 销毁，移除所有监听以及画纸创建的元素 */
   public dispose(): void {
+    this.textEditor?.cancel()
+    this.animCtrl.reset()
+    this.replayCtrl.reset()
+    this.replaySession = undefined
+    this.selectionDrag = undefined
+    this.selected = undefined
+    for (const type of POINTER_EVENTS) {
+      this.root.removeEventListener(type, this.pointerListener)
+    }
+    this.root.removeEventListener('wheel', this.wheelListener)
+    this.imageElement.remove()
     if (this.resizeObserver) {
       this.resizeObserver.disconnect()
     } else {
       window.removeEventListener('resize', this.windowListener)
     }
+    this.root.removeEventListener('keydown', this.keyListener)
+    this.root.removeEventListener('keyup', this.keyListener)
+    this.root.removeEventListener('focusout', this.blurListener)
+    window.removeEventListener('blur', this.blurListener)
+    for (const layer of this.layerList) {
+      if (layer.id !== DEFAULT_LAYER_ID) layer.canvas.canvas.remove()
+      layer.multiplyCanvas.canvas.remove()
+    }
+    this.previewCanvas.canvas.remove()
+    this.overlay.canvas.remove()
+    this.checkpoints.invalidate()
+    this.emitter.clear()
   }
 
   /** 初始化各类监听 */
   private initListeners(): void {
-    const root = this.root, self = this
+    const root = this.root
     const options: AddEventListenerOptions = { passive: false }
 
-    root.addEventListener('touchstart', (evt) => Paper.onTouchStart(self, evt), options)
-    root.addEventListener('touchend', (evt) => Paper.onTouchEnd(self, evt), options)
-    root.addEventListener('touchmove', (evt) => Paper.onTouchMove(self, evt), options)
-    root.addEventListener('touchcancel', (evt) => Paper.onTouchCancel(self, evt), options)
+    // 由指针事件统一处理鼠标、触控笔和手指，禁止浏览器默认的触摸手势
+    root.style.touchAction = 'none'
+    root.style.userSelect = 'none'
+    for (const type of POINTER_EVENTS) {
+      root.addEventListener(type, this.pointerListener, options)
+    }
+    root.addEventListener('wheel', this.wheelListener, options)
+
+    // 键盘事件只在画纸获得焦点时响应，根布局需要可以获得焦点
+    if (!root.hasAttribute('tabindex')) root.tabIndex = 0
+    root.addEventListener('keydown', this.keyListener)
+    root.addEventListener('keyup', this.keyListener)
+    root.addEventListener('focusout', this.blurListener)
+    window.addEventListener('blur', this.blurListener)
 
     // 监听是否改变
     if (typeof ResizeObserver === 'function') {
@@ -264,9 +1082,10 @@ export class Paper {
       imageElement = imageCanvas
     }
 
-    const canvasElement = this.canvas.canvas
-    canvasElement.width = this.width
-    canvasElement.height = this.height
+    for (const element of this.layerList.flatMap(x => x.elements)) {
+      element.width = this.width
+      element.height = this.height
+    }
 
     imageElement.style.zIndex = '1'
     imageElement.style.width = '100%'
@@ -278,27 +1097,351 @@ export class Paper {
       imageElement.style.objectFit = 'contain'
     }
 
-    this.parent.insertBefore(imageElement, canvasElement)
+    this.parent.insertBefore(imageElement, this.parent.firstChild)
+    this.imageElement = imageElement
+  }
+
+  /**
+   * 替换所有笔迹和图层，并重建撤销栈
+   *
+   * @param histories 历史记录
+   * @param layers    图层配置
+   */
+  private replaceDocument(histories: BrushHistory[], layers: LayerConfigs[]): void {
+    this.stopReplay()
+    this.textEditor?.cancel()
+    this.cleanCurrentDraw()
+    this.clearSelection()
+    this.histories.splice(0, this.histories.length, ...histories)
+    this.resetUndoStack()
+    this.loadLayers(layers)
+    this.checkpoints.invalidate()
+    this.updateLayers()
+    this.redraw()
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * 载入历史记录中的图层，未包含默认图层时默认图层置于最下方
+   *
+   * @param configs 图层配置
+   */
+  private loadLayers(configs: LayerConfigs[]): void {
+    // 移除除默认图层外的所有图层，并恢复默认图层配置
+    const defaultLayer = this.findLayer(DEFAULT_LAYER_ID)!
+    for (const layer of this.layerList) {
+      if (layer !== defaultLayer) layer.elements.forEach(x => x.remove())
+    }
+    Object.assign(defaultLayer.configs, Paper.defaultLayerConfigs())
+
+    const layers: Layer[] = []
+    for (const item of configs) {
+      if (layers.some(x => x.id === item.id)) continue
+      if (item.id === DEFAULT_LAYER_ID) {
+        Object.assign(defaultLayer.configs, item)
+        layers.push(defaultLayer)
+      } else {
+        layers.push(this.createLayer({ ...item }))
+      }
+    }
+    if (!layers.includes(defaultLayer)) {
+      layers.unshift(defaultLayer)
+    }
+    this.layerList.splice(0, this.layerList.length, ...layers)
+    if (!this.findLayer(this.activeLayerId)) this.activeLayerId = DEFAULT_LAYER_ID
+
+    // 不存在的图层归入默认图层
+    for (const item of this.histories) {
+      if (!this.findLayer(this.layerOf(item))) item.layer = undefined
+    }
+  }
+
+  /**
+   * 创建图层，并将图层画布添加到画布父布局中
+   *
+   * @param configs 图层配置
+   */
+  private createLayer(configs: LayerConfigs): Layer {
+    return new Layer(configs, this.createCanvas(), this.createCanvas())
+  }
+
+  /**
+   * 将图层插入到指定位置，并将图层画布添加到画布父布局中
+   *
+   * @param layer 图层
+   * @param index 位置
+   */
+  private attachLayer(layer: Layer, index: number): void {
+    layer.elements.forEach(x => this.parent.appendChild(x))
+    this.layerList.splice(index, 0, layer)
+    this.updateLayers()
+  }
+
+  /**
+   * 移除图层，图层画布从画布父布局中移除但保留内容，当前图层被移除时切换到最上方的图层
+   *
+   * @param layer 图层
+   */
+  private detachLayer(layer: Layer): void {
+    if (layer.id === this.activeLayerId) {
+      this.cleanCurrentDraw()
+      this.activeLayerId = this.layerList.filter(x => x !== layer).pop()!.id
+    }
+    removeWhere(this.layerList, x => x === layer)
+    layer.elements.forEach(x => x.remove())
+    this.updateLayers()
+  }
+
+  /** 创建与涂鸦尺寸相同的画布，并添加到画布父布局中 */
+  private createCanvas(): HTMLCanvasElement {
+    const canvasElement = document.createElement('canvas')
+    canvasElement.width = this.width
+    canvasElement.height = this.height
+
+    const style = canvasElement.style
+    style.position = 'absolute'
+    style.left = '0'
+    style.top = '0'
+    style.width = '100%'
+    style.height = '100%'
+    style.margin = '0'
+    style.padding = '0'
+
+    this.parent.appendChild(canvasElement)
+    return canvasElement
+  }
+
+  /** 生成不重复的图层编号 */
+  private generateLayerId(): string {
+    let index = this.layerList.length
+    while (this.findLayer(`layer-${index}`)) index++
+    return `layer-${index}`
+  }
+
+  /** 根据编号查找图层 */
+  private findLayer(id: string): Layer | undefined {
+    return this.layerList.find(x => x.id === id)
+  }
+
+  /** 获取历史记录所属的图层编号 */
+  private layerOf(history: BrushHistory): string {
+    return history.layer ?? DEFAULT_LAYER_ID
+  }
+
+  /** 当前绘制的图层 */
+  private get currentLayer(): Layer {
+    return this.findLayer(this.activeLayerId) ?? this.layerList[0]
+  }
+
+  /** 当前绘制的图层画布 */
+  private get activeCanvas(): CanvasRenderingContext2D {
+    return this.currentLayer.canvas
+  }
+
+  /** 笔刷绘制时使用的画布，需要预览的笔刷绘制到预览画布，选择范围绘制到辅助画布 */
+  private get drawingCanvas(): CanvasRenderingContext2D {
+    if (!this.brush.preview) return this.activeCanvas
+    return this.brush instanceof SelectBrush ? this.overlay : this.previewCanvas
+  }
+
+  /**
+   * 更新所有图层的样式，底图层级为 1，图层从 2 开始，每个图层占用图层画布和正片叠底画布两个层级
+   *
+   * 笔迹预览画布紧贴在当前图层上方，并使用当前图层的可见性、不透明度和混合模式，
+   * 使绘制过程中的效果与绘制到图层后一致，正片叠底的画笔使用正片叠底混合。辅助画布位于最上方
+   */
+  private updateLayers(): void {
+    let zIndex = 2
+    for (const layer of this.layerList) {
+      layer.applyStyle(this.opacity, zIndex)
+      zIndex += 2
+      if (layer !== this.currentLayer) continue
+      const blendMode = Layer.isMultiply(this.brush.toConfigs()) ? 'multiply' : undefined
+      layer.applyStyleTo(this.previewCanvas.canvas, this.opacity, zIndex++, blendMode)
+    }
+    this.overlay.canvas.style.zIndex = zIndex.toString()
+  }
+
+  /** 清空笔迹预览画布和辅助画布 */
+  private clearOverlay(): void {
+    this.previewCanvas.clearRect(0, 0, this.width, this.height)
+    this.overlay.clearRect(0, 0, this.width, this.height)
+  }
+
+  /**
+   * 将底图和所有可见图层合并到新画布，不包含画纸整体不透明度
+   *
+   * @param options 导出配置
+   */
+  private flatten(options?: ExportOptions): HTMLCanvasElement {
+    const scale = options?.scale && options.scale > 0 ? options.scale : 1
+    const canvasElement = document.createElement('canvas')
+    canvasElement.width = Math.max(Math.round(this.width * scale), 1)
+    canvasElement.height = Math.max(Math.round(this.height * scale), 1)
+
+    const canvas = canvasElement.getContext('2d')!
+    const width = canvasElement.width, height = canvasElement.height
+    const background = options?.background ?? (options?.type === 'image/jpeg' ? '#FFFFFF' : undefined)
+    if (background) {
+      canvas.fillStyle = background
+      canvas.fillRect(0, 0, width, height)
+    }
+    if (options?.includeImage ?? true) {
+      canvas.drawImage(this.image, 0, 0, width, height)
+    }
+    this.drawLayers(canvas)
+    return canvasElement
+  }
+
+  /**
+   * 将所有可见图层按顺序绘制到画布
+   *
+   * @param canvas 目标画布，尺寸应与涂鸦一致
+   */
+  private drawLayers(canvas: CanvasRenderingContext2D): void {
+    this.layerList.forEach(x => x.drawTo(canvas))
   }
 
-  private static onTouchMove(self: Paper, event: TouchEvent): void {
+  /** 默认图层配置 */
+  private static defaultLayerConfigs(): LayerConfigs {
+    return { id: DEFAULT_LAYER_ID, name: 'Default', visible: true, opacity: 1, blendMode: 'normal' }
+  }
+
+  private static onPointer(self: Paper, event: PointerEvent): void {
+    switch (event.type) {
+      case 'pointerdown':
+        return Paper.onPointerDown(self, event)
+      case 'pointermove':
+        return Paper.onPointerMove(self, event)
+      default:
+        return Paper.onPointerUp(self, event)
+    }
+  }
+
+  private static onPointerDown(self: Paper, event: PointerEvent): void {
+    // 鼠标仅响应左键和中键
+    if (event.pointerType === 'mouse' && event.button !== 0 && event.button !== 1) return
     event.preventDefault()
-    self.onTouchMoveProxy(event, self.root.getBoundingClientRect())
+    if (self.rejectPointer(event)) return
+    self.textEditor?.commit()
+
+    // 阻止默认行为后浏览器不会自动聚焦，手动聚焦以便响应快捷键
+    if (!self.root.contains(document.activeElement)) self.root.focus({ preventScroll: true })
+    const rect = self.root.getBoundingClientRect()
+    self.root.setPointerCapture(event.pointerId)
+    self.pointers.set(event.pointerId, Paper.getPointerOffset(event, rect))
+    self.pointerTypes.set(event.pointerId, event.pointerType)
+    self.onPointerDownProxy(event)
   }
 
-  private static onTouchStart(self: Paper, event: TouchEvent): void {
+  private static onPointerMove(self: Paper, event: PointerEvent): void {
+    // 忽略未按下的指针，例如鼠标悬停
+    if (!self.pointers.has(event.pointerId)) return
     event.preventDefault()
-    self.onTouchStartProxy(event, self.root.getBoundingClientRect())
+
+    // 手掌落下时接触面积逐渐变大
+    if (self._palmRejection && event.pointerType === 'touch' && Paper.isPalm(event)) {
+      self.dropTouches()
+      return
+    }
+    const rect = self.root.getBoundingClientRect()
+    self.pointers.set(event.pointerId, Paper.getPointerOffset(event, rect))
+    self.onPointerMoveProxy(event)
   }
 
-  private static onTouchEnd(self: Paper, event: TouchEvent): void {
+  private static onPointerUp(self: Paper, event: PointerEvent): void {
+    if (!self.pointers.delete(event.pointerId)) return
+    self.pointerTypes.delete(event.pointerId)
     event.preventDefault()
-    self.onTouchEndProxy(event, self.root.getBoundingClientRect())
+    self.onPointerUpProxy()
   }
 
-  private static onTouchCancel(self: Paper, event: TouchEvent): void {
+  private static onKey(self: Paper, event: KeyboardEvent): void {
+    if (isEditableTarget(event.target)) return
+    if (event.code === 'Space') {
+      // 画纸获得焦点时阻止页面滚动
+      event.preventDefault()
+      self.spacePressed = event.type === 'keydown'
+      self.root.style.cursor = self.spacePressed ? 'grab' : ''
+      return
+    }
+
+    if (event.type !== 'keydown' || !self._keyMap) return
+    const action = matchShortcut(self._keyMap, event)
+    if (action && self.runShortcut(action)) event.preventDefault()
+  }
+
+  private static onWheel(self: Paper, event: WheelEvent): void {
+    // 绘制或拖拽过程中忽略滚轮
+    if (!self._wheel || self.pointers.size > 0) return
+    const rect = self.root.getBoundingClientRect()
+    const unit = event.deltaMode === 1 ? WHEEL_LINE_HEIGHT : event.deltaMode === 2 ? rect.height : 1
+    let dx = event.deltaX * unit, dy = event.deltaY * unit
+
+    // 按住 Ctrl 滚动或触控板捏合时，以指针位置为中心缩放
+    if (event.ctrlKey) {
+      event.preventDefault()
+      const factor = Math.exp(-clampNumber(dy, -WHEEL_MAX_DELTA, WHEEL_MAX_DELTA) * WHEEL_ZOOM_SPEED)
+      self.zoomTo(self.position.scale * factor, { x: event.clientX, y: event.clientY }, false)
+      return
+    }
+
+    // 未放大时不拦截页面滚动
+    if (self.position.scale <= 1) return
     event.preventDefault()
-    self.onTouchEndProxy(event, self.root.getBoundingClientRect())
+    if (event.shiftKey && dx === 0) [dx, dy] = [dy, 0]
+    self.panBy(-dx, -dy)
+  }
+
+  private static onBlur(self: Paper): void {
+    self.spacePressed = false
+    self.root.style.cursor = ''
+  }
+
+  /** 是否为手掌等大面积接触 */
+  private static isPalm(event: PointerEvent): boolean {
+    return Math.max(event.width, event.height) >= PALM_CONTACT_SIZE
+  }
+
+  /**
+   * 防误触，触控笔按下时丢弃所有手指
+   *
+   * @param event 按下事件
+   * @return 是否忽略该指针
+   */
+  private rejectPointer(event: PointerEvent): boolean {
+    if (!this._palmRejection) return false
+    if (event.pointerType === 'pen') {
+      this.dropTouches()
+      return false
+    }
+    if (event.pointerType !== 'touch') return false
+    return Paper.isPalm(event) || [...this.pointerTypes.values()].includes('pen')
+  }
+
+  /** 丢弃所有按下的手指，取消手指正在绘制的一笔 */
+  private dropTouches(): void {
+    const touches = [...this.pointerTypes].filter(([, type]) => type === 'touch').map(([id]) => id)
+    if (touches.length === 0) return
+    for (const id of touches) {
+      this.pointers.delete(id)
+      this.pointerTypes.delete(id)
+      if (this.root.hasPointerCapture(id)) this.root.releasePointerCapture(id)
+    }
+    this.tap = undefined
+    if (this.workMode === 1) this.cleanCurrentDraw()
+    this.workMode = 0
+  }
+
+  /** 获取指针相对根布局的坐标 */
+  private static getPointerOffset(event: MouseEvent, rect: DOMRect): Offset {
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  /** 获取指针压感，仅触控笔提供可靠的压感，其余设备返回 0 */
+  private static getPointerPressure(event: PointerEvent): number {
+    if (event.pointerType !== 'pen') return 0
+    return clampNumber(event.pressure, 0.01, 1)
   }
 
   private static onResize(self: Paper): void {
@@ -309,37 +1452,64 @@ export class Paper {
     self.updateState()
   }
 
-  private onTouchStartProxy(event: TouchEvent, rect: DOMRect): void {
-    const touchCount = event.targetTouches.length
-    if (touchCount == 1) {
+  private onPointerDownProxy(event: PointerEvent): void {
+    const pointerCount = this.pointers.size
+    if (pointerCount == 1) {
+      // 按下时停止惯性滑动，其余动画过程中忽略
+      this.stopFling()
       if (this.animCtrl.animating) {
         this.workMode = 0
         return
       }
-    } else if (this.workMode == 0) {
-      return
+
+      // 单指双击切换缩放
+      const focus = this.computeFocus()
+      if (event.pointerType === 'touch' && this.detectDoubleTap(focus)) {
+        this.workMode = 0
+        return
+      }
+      this.tap = event.pointerType === 'touch' ? { time: performance.now(), ...focus } : undefined
+    } else {
+      this.tap = undefined
+      if (this.workMode == 0) return
     }
 
-    this.workMode = touchCount <= 1 ? 1 : 2 // 如果为单指则为绘制模式
-    this.lastFocus = this.computeFocus(event, rect)
+    // 单指针为绘制模式，鼠标中键或按住空格拖拽为移动模式
+    // 回放期间，或仅触控笔绘制时的手指只能移动和缩放
+    const panning = this.replaySession !== undefined
+      || event.pointerType === 'mouse' && (event.button === 1 || this.spacePressed)
+      || event.pointerType === 'touch' && this._inputMode === 'stylus-only'
+    this.workMode = pointerCount <= 1 && !panning ? 1 : 2
+    this.lastFocus = this.computeFocus()
 
     if (this.workMode == 1) {
-      const x = this.lastFocus.x, y = this.lastFocus.y
-      this.brush.drawDown(this.relativePositionToTimePoint(x, y), this.canvas)
+      const x = this.lastFocus.x, y = this.lastFocus.y, pressure = Paper.getPointerPressure(event)
+      const point = this.relativePositionToTimePoint(x, y, pressure)
+      if (this.beginSelectionDrag(point)) return
+      this.brush.drawDown(point, this.drawingCanvas)
+      this.emitter.emit('stroke-start')
     } else {
       // 进入移动模式，取消当前绘制的一笔
       this.cleanCurrentDraw()
-      this.lastLength = this.computeLength(event, rect)
+      this.lastLength = this.computeLength()
       this.lastScaleFocus = this.lastFocus
+      this.panSamples.splice(0)
     }
   }
 
-  private onTouchMoveProxy(event: TouchEvent, rect: DOMRect): void {
-    const focus = this.computeFocus(event, rect)
+  private onPointerMoveProxy(event: PointerEvent): void {
+    const focus = this.computeFocus()
+    const tap = this.tap
+    if (tap && Math.hypot(focus.x - tap.x, focus.y - tap.y) > DOUBLE_TAP_SLOP) this.tap = undefined
     if (this.workMode === 0) return
     if (this.workMode === 1) {
-      const x = focus.x, y = focus.y
-      this.brush.drawMove(this.relativePositionToTimePoint(x, y), this.canvas)
+      const x = focus.x, y = focus.y, pressure = Paper.getPointerPressure(event)
+      const point = this.relativePositionToTimePoint(x, y, pressure)
+      if (this.selectionDrag) {
+        this.updateSelectionDrag(point)
+      } else {
+        this.brush.drawMove(point, this.drawingCanvas)
+      }
       return
     }
 
@@ -347,8 +1517,8 @@ export class Paper {
     const delta: Offset = { x: focus.x - this.lastFocus.x, y: focus.y - this.lastFocus.y }
 
     // 判断是否发生缩放
-    if (event.targetTouches.length > 1) {
-      const curLength = this.computeLength(event, rect)
+    if (this.pointers.size > 1 && this.lastLength > 0) {
+      const curLength = this.computeLength()
       const deltaScale = curLength / this.lastLength
       if (Math.abs(deltaScale - 1.0) > 0.005) {
         updated = true
@@ -373,62 +1543,209 @@ export class Paper {
     // 更新 UI
     if (updated) {
       this.updateState()
+      this.recordPanSample()
     }
   }
 
-  private onTouchEndProxy(event: TouchEvent, rect: DOMRect): void {
+  private onPointerUpProxy(): void {
+    // 记录单指点击，用于识别双击
+    const tap = this.tap
+    if (tap && this.pointers.size === 0) {
+      const now = performance.now()
+      this.lastTap = now - tap.time <= DOUBLE_TAP_TIMEOUT ? { time: now, x: tap.x, y: tap.y } : undefined
+      this.tap = undefined
+    }
     if (this.workMode === 0) return
     // 如果为绘制模式
     if (this.workMode === 1) {
-      this.brush.drawUp(this.canvas)
-
-      // 添加到历史记录
-      const painter: BrushPainter = this.brush as any as BrushPainter
-      const history = painter.cleanHistory()
-      if (!history) return
-      this.histories.push(history)
-      this.redoHistories.splice(0) // 清空重做历史
+      this.commitCurrentDraw()
       return
     }
 
-    // 当不是绘制模式时
-    if (event.targetTouches.length > 1) {
-      this.lastFocus = this.computeFocus(event, rect)
-      this.lastLength = this.computeLength(event, rect)
-      this.lastScaleFocus = this.lastFocus
-    } else if (event.targetTouches.length > 0) {
-      this.lastFocus = this.computeFocus(event, rect)
-    } else {
-      this.overBound()
-    }
+    // 当不是绘制模式时
+    if (this.pointers.size > 1) {
+      this.lastFocus = this.computeFocus()
+      this.lastLength = this.computeLength()
+      this.lastScaleFocus = this.lastFocus
+    } else if (this.pointers.size > 0) {
+      this.lastFocus = this.computeFocus()
+    } else if (!this.startFling()) {
+      this.overBound()
+    }
+  }
+
+  /**
+   * 检测是否与上一次点击构成双击
+   *
+   * @param focus 按下位置，相对根布局
+   */
+  private detectDoubleTap(focus: Offset): boolean {
+    const last = this.lastTap
+    this.lastTap = undefined
+    // 填充和文字通过点击完成，连续点击不应触发缩放
+    if (this.brush instanceof FillBrush || this.brush instanceof TextBrush) return false
+    if (!last || performance.now() - last.time > DOUBLE_TAP_TIMEOUT) return false
+    if (Math.hypot(focus.x - last.x, focus.y - last.y) > DOUBLE_TAP_SLOP) return false
+
+    // 已经放大时恢复居中，否则以点击位置为中心放大到最大缩放比例
+    if (this.position.scale > 1) {
+      this.transformTo(0, 0, 1, true)
+    } else {
+      const scale = this._maxScale
+      const offset = this.computeScaleOffset(focus, scale / this.position.scale)
+      this.transformTo(this.position.x + offset.x, this.position.y + offset.y, scale, true, SPRING, 400)
+    }
+    return true
+  }
+
+  /** 记录移动模式下的位置，只保留最近一段时间内的采样 */
+  private recordPanSample(): void {
+    const now = performance.now()
+    const samples = this.panSamples
+    samples.push({ time: now, x: this.position.x, y: this.position.y })
+    while (samples.length > 0 && now - samples[0].time > PAN_VELOCITY_WINDOW) samples.shift()
+  }
+
+  /**
+   * 根据松手前的移动速度开始惯性滑动，滑动终点限制在可移动范围内
+   *
+   * @return 超出范围或速度过小时返回 `false`
+   */
+  private startFling(): boolean {
+    const position = this.position
+    if (position.scale < 1 || position.scale > this._maxScale) return false
+    const bounded = this.clampOffset(position.x, position.y, position.scale)
+    if (bounded.x !== position.x || bounded.y !== position.y) return false
+
+    // 手指停留后松手时没有速度
+    const now = performance.now()
+    const samples = this.panSamples.filter(x => now - x.time <= PAN_VELOCITY_WINDOW)
+    this.panSamples.splice(0)
+    if (samples.length < 2) return false
+    const first = samples[0], last = samples[samples.length - 1]
+    const dt = last.time - first.time
+    if (dt <= 0) return false
+    const vx = (last.x - first.x) / dt, vy = (last.y - first.y) / dt
+    if (Math.hypot(vx, vy) < FLING_MIN_SPEED) return false
+
+    // 缓出曲线的初速度为 3 倍平均速度，时长取 3 倍时间常数时初速度与松手速度一致
+    const sx = position.x, sy = position.y
+    const target = this.clampOffset(sx + vx * FLING_TIME_CONSTANT, sy + vy * FLING_TIME_CONSTANT, position.scale)
+    if (target.x === sx && target.y === sy) return true
+    const self = this, fling = {}
+    this.fling = fling
+    this.animCtrl.execute(
+      FLING_TIME_CONSTANT * 3,
+      (_, value) => {
+        if (self.fling !== fling) return
+        position.x = sx + (target.x - sx) * value
+        position.y = sy + (target.y - sy) * value
+        self.updateState()
+      },
+      () => {
+        if (self.fling === fling) self.fling = undefined
+      },
+      undefined,
+      EASE_OUT
+    )
+    return true
+  }
+
+  /** 停止惯性滑动，画布停留在当前位置 */
+  private stopFling(): void {
+    if (!this.fling) return
+    this.fling = undefined
+    this.animCtrl.reset()
   }
 
   /** 越界检测 */
   private overBound(): void {
-    const scaleTo = clampNumber(this.position.scale, 1, this.maxScale)
+    const scaleTo = clampNumber(this.position.scale, 1, this._maxScale)
     if (scaleTo <= 1) {
       this.animateTo(0, 0, 1, 200, true)
       return
     }
 
     const offset = this.computeScaleOffset(this.lastScaleFocus, scaleTo / this.position.scale)
-    offset.x += this.position.x + this.position.ox
-    offset.y += this.position.y + this.position.oy
-
-    const cx = this.root.offsetWidth - this.position.width * scaleTo
-    const cy = this.root.offsetHeight - this.position.height * scaleTo
-    const minX = Math.min(cx, 0.0)
-    const minY = Math.min(cy, 0.0)
-    const maxX = Math.max(cx, 0.0)
-    const maxY = Math.max(cy, 0.0)
-
-    this.animateTo(
-      clampNumber(offset.x, minX, maxX) - this.position.ox,
-      clampNumber(offset.y, minY, maxY) - this.position.oy,
-      scaleTo,
-      200,
-      true
-    )
+    const target = this.clampOffset(this.position.x + offset.x, this.position.y + offset.y, scaleTo)
+    this.animateTo(target.x, target.y, scaleTo, 200, true)
+  }
+
+  /**
+   * 将偏移限制在指定缩放比例下的可移动范围内
+   *
+   * @param x     相对居中位置的横向偏移
+   * @param y     相对居中位置的纵向偏移
+   * @param scale 缩放比例
+   */
+  private clampOffset(x: number, y: number, scale: number): Offset {
+    if (scale <= 1) return { x: 0, y: 0 }
+    const cx = this.root.offsetWidth - this.position.width * scale
+    const cy = this.root.offsetHeight - this.position.height * scale
+    return {
+      x: clampNumber(x + this.position.ox, Math.min(cx, 0.0), Math.max(cx, 0.0)) - this.position.ox,
+      y: clampNumber(y + this.position.oy, Math.min(cy, 0.0), Math.max(cy, 0.0)) - this.position.oy
+    }
+  }
+
+  /**
+   * 移动缩放到指定位置，缩放比例和偏移限制在范围内
+   *
+   * @param x           相对居中位置的横向偏移
+   * @param y           相对居中位置的纵向偏移
+   * @param scale       缩放比例
+   * @param animate     是否播放动画
+   * @param easing      缓动函数
+   * @param maxDuration 动画最大时长
+   */
+  private transformTo(
+    x: number,
+    y: number,
+    scale: number,
+    animate: boolean,
+    easing: Easing = EASE_OUT,
+    maxDuration: number = 200
+  ): void {
+    this.stopFling()
+    this.animCtrl.reset()
+    const scaleTo = clampNumber(scale, 1, this._maxScale)
+    const target = this.clampOffset(x, y, scaleTo)
+    if (animate) {
+      this.animateTo(target.x, target.y, scaleTo, maxDuration, false, easing)
+      return
+    }
+    this.position.x = target.x
+    this.position.y = target.y
+    this.position.scale = scaleTo
+    this.updateState()
+  }
+
+  /**
+   * 执行快捷键操作
+   *
+   * @param action 操作
+   * @return 操作是否执行，执行时阻止按键的默认行为
+   */
+  private runShortcut(action: ShortcutAction): boolean {
+    switch (action) {
+      case 'undo':
+        return this.undo()
+      case 'redo':
+        return this.redo()
+      case 'fitCenter':
+        this.fitCenter()
+        return true
+      case 'decreaseSize':
+      case 'increaseSize': {
+        const size = this.brush.strokeSize
+        this.brush.strokeSize = action === 'increaseSize'
+          ? Math.min(Math.max(Math.round(size * BRUSH_SIZE_STEP), size + 1), MAX_BRUSH_SIZE)
+          : Math.max(Math.min(Math.round(size / BRUSH_SIZE_STEP), size - 1), 1)
+        return this.brush.strokeSize !== size
+      }
+      default:
+        return this.deleteSelection()
+    }
   }
 
   /**
@@ -439,9 +1756,17 @@ export class Paper {
    * @param es 目标缩放比例
    * @param maxDuration 动画最大时长
    * @param lost 允许取消时不对其进行赋值
+   * @param easing 缓动函数
    * @private
    */
-  private animateTo(ex: number, ey: number, es: number, maxDuration: number = 200, lost: boolean = false): void {
+  private animateTo(
+    ex: number,
+    ey: number,
+    es: number,
+    maxDuration: number = 200,
+    lost: boolean = false,
+    easing: Easing = EASE_OUT
+  ): void {
     const sx = this.position.x, sy = this.position.y, ss = this.position.scale
     const self = this
 
@@ -476,7 +1801,8 @@ export class Paper {
         self.position.y = ey
         self.position.scale = es
         self.updateState()
-      }
+      },
+      easing
     )
   }
 
@@ -487,45 +1813,525 @@ export class Paper {
     this.parent.style.left = (this.position.ox + this.position.x) + 'px'
     this.parent.style.top = (this.position.oy + this.position.y) + 'px'
     this.parent.style.transform = `scale(${this.position.scale}, ${this.position.scale})`
+    if (this.selected) this.renderSelection() // 控制点大小随缩放变化
+    this.emitter.emit('transform-change', {
+      scale: this.position.scale,
+      x: this.position.x,
+      y: this.position.y
+    })
+  }
+
+  /** 通知回放状态变化 */
+  private notifyReplayChange(): void {
+    this.emitter.emit('replay-change', this.replayState)
+  }
+
+  /** 通知历史记录发生变化 */
+  private notifyHistoryChange(): void {
+    this.emitter.emit('history-change', { canUndo: this.canUndo, canRedo: this.canRedo })
+  }
+
+  /** 通知选中的笔迹发生变化 */
+  private notifySelectionChange(): void {
+    this.emitter.emit('selection-change', this.selection)
+  }
+
+  /**
+   * 分发错误事件后继续抛出
+   *
+   * @param error 错误
+   */
+  private rethrow(error: unknown): never {
+    this.emitter.emit('error', error)
+    throw error
+  }
+
+  /** 完成当前绘制的这笔，并添加到历史记录 */
+  private commitCurrentDraw(): void {
+    if (this.selectionDrag) {
+      this.finishSelectionDrag()
+      return
+    }
+    this.brush.drawUp(this.drawingCanvas)
+
+    const painter: BrushPainter = this.brush as any as BrushPainter
+    const history = painter.cleanHistory()
+    if (this.brush.preview) this.clearOverlay()
+
+    // 文字需要通过编辑框输入内容
+    if (history && this.brush instanceof TextBrush) {
+      this.editText(history.first)
+      return
+    }
+
+    // 矢量橡皮擦不保存路径，只修改接触到的笔迹
+    if (history && this.brush instanceof EraserBrush && this.brush.mode !== 'pixel') {
+      this.eraseWith(history)
+      return
+    }
+
+    // 选择工具不保存路径，只选中范围内的笔迹
+    if (this.brush instanceof SelectBrush) {
+      if (history) this.selectWith(history)
+      return
+    }
+
+    // 填充区域根据抬笔时画布上的像素计算
+    if (history && this.brush instanceof FillBrush) history.mask = this.computeFill(history)
+    if (!history?.valid) return
+
+    // 预览内容需要重新绘制到图层
+    history.layer = this.activeLayerId === DEFAULT_LAYER_ID ? undefined : this.activeLayerId
+    this.currentLayer.replay(history, this.brush.preview)
+
+    this.addHistory(history)
+
+    // 简化后的路径与绘制时略有不同，重绘图层使画面与历史记录一致
+    if (!this.brush.preview && (history.configs.simplify ?? 0) > 0) this.redraw(this.activeLayerId)
+    this.saveCheckpoint(this.activeLayerId)
+    this.emitter.emit('stroke-end', history)
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * 在指定位置输入文字，如果当前图层该位置已有文字，则编辑已有文字
+   *
+   * @param point 点击位置
+   */
+  private editText(point: TimePoint): void {
+    const target = this.findTextAt(point)
+    const configs = target?.configs ?? this.brush.toConfigs()
+    const origin = target?.first ?? point
+    const layerId = target ? this.layerOf(target) : this.activeLayerId
+    const scale = this.position.oScale
+
+    // 编辑已有文字时先隐藏原文字
+    if (target) {
+      this.editingText = target
+      this.redraw(layerId)
+    }
+
+    this.textEditor = new TextEditor(this.parent, {
+      x: origin.x * scale,
+      y: origin.y * scale,
+      text: target?.text ?? '',
+      fontSize: configs.size * scale,
+      font: configs.font ?? 'sans-serif',
+      color: Brush.fromConfig(configs).strokeStyle,
+      zIndex: this.layerList.length + 3
+    }, (text) => {
+      this.textEditor = undefined
+      this.editingText = undefined
+      if (text !== undefined && text.trim().length === 0) text = ''
+
+      if (target) {
+        // 取消编辑时保持原样，清空内容时删除文字
+        if (text === '') {
+          this.commitChange({ removed: [target], added: [] })
+        } else if (text !== undefined && text !== target.text) {
+          const edited = target.clone()
+          edited.text = text
+          this.orders.set(edited, this.orders.get(target) ?? 0)
+          this.commitChange({ removed: [target], added: [edited] })
+        }
+        this.redraw(layerId)
+        if (text !== undefined) this.notifyHistoryChange()
+        return
+      }
+
+      if (!text) return
+      const history = new BrushHistory(
+        { ...configs },
+        [origin],
+        layerId === DEFAULT_LAYER_ID ? undefined : layerId
+      )
+      history.text = text
+      this.findLayer(layerId)!.replay(history)
+      this.addHistory(history)
+      this.saveCheckpoint(layerId)
+      this.emitter.emit('stroke-end', history)
+      this.notifyHistoryChange()
+    })
+  }
+
+  /**
+   * 使用矢量橡皮擦删除或切断当前图层中接触到的笔迹，作为一次变更添加到撤销栈
+   *
+   * @param eraser 橡皮擦历史记录
+   */
+  private eraseWith(eraser: BrushHistory): void {
+    const vectorEraser = new VectorEraser(eraser, this.activeCanvas)
+    const change: HistoryChange = { removed: [], added: [] }
+    for (const item of this.histories) {
+      if (!item.valid || this.layerOf(item) !== this.activeLayerId) continue
+      const pieces = vectorEraser.erase(item)
+      if (!pieces) continue
+
+      // 切断后的笔迹保持原来的排序
+      change.removed.push(item)
+      for (const piece of pieces) {
+        this.orders.set(piece, this.orders.get(item) ?? 0)
+        change.added.push(piece)
+      }
+    }
+    if (change.removed.length === 0) return
+    this.commitChange(change)
+    this.redraw(this.activeLayerId)
+    this.notifyHistoryChange()
+  }
+
+  /**
+   * 计算填充区域，采样所有可见图层合并后的像素，开启底图采样时包含底图
+   *
+   * @param history 填充的历史记录
+   * @return 无法读取像素或点击位置不在画布内时返回空
+   */
+  private computeFill(history: BrushHistory): FillMask | undefined {
+    const configs = history.configs
+    const canvasElement = document.createElement('canvas')
+    canvasElement.width = this.width
+    canvasElement.height = this.height
+    const canvas = canvasElement.getContext('2d', { willReadFrequently: true })!
+    if (configs.sampleImage) canvas.drawImage(this.image, 0, 0, this.width, this.height)
+    this.drawLayers(canvas)
+
+    let pixels: ImageData
+    try {
+      pixels = canvas.getImageData(0, 0, this.width, this.height)
+    } catch (e) {
+      // 跨域的底图无法读取像素
+      this.emitter.emit('error', e)
+      return undefined
+    }
+    const { x, y } = history.first
+    return floodFill(pixels, x, y, { tolerance: configs.tolerance ?? 32, gapSize: configs.gapSize ?? 0 })
+  }
+
+  /**
+   * 选中当前图层中位于选择范围内的笔迹，像素橡皮擦的笔迹和填充不可选中
+   *
+   * @param area 选择工具的历史记录
+   */
+  private selectWith(area: BrushHistory): void {
+    const canvas = this.activeCanvas
+    const candidates = this.histories.filter(x => {
+      return x.valid && this.layerOf(x) === this.activeLayerId &&
+        x.configs.blendMode !== 'destination-out' && x.configs.type !== BrushType.fill
+    })
+    const items = Selection.select(candidates, area, canvas)
+    this.selected = items.length > 0 ? new Selection(items, canvas) : undefined
+    this.renderSelection()
+    this.notifySelectionChange()
+  }
+
+  /**
+   * 如果按下位置在选择框上，开始拖拽选择框，否则取消选中
+   *
+   * @param point 按下位置
+   * @return 是否开始拖拽
+   */
+  private beginSelectionDrag(point: TimePoint): boolean {
+    const selection = this.selected
+    if (!selection || !(this.brush instanceof SelectBrush)) return false
+    const hit = selection.hitTest(point, this.handleSize)
+    if (!hit) {
+      this.clearSelection()
+      return false
+    }
+
+    // 拖拽期间从图层中隐藏选中的笔迹，在预览画布上绘制
+    this.selectionDrag = { handle: hit.handle, pivot: hit.pivot, start: point }
+    this.selectionLayers(selection).forEach(id => this.redraw(id))
+    this.renderSelection()
+    return true
+  }
+
+  /**
+   * 根据拖拽位置更新选择框的变换
+   *
+   * @param point 拖拽位置
+   */
+  private updateSelectionDrag(point: TimePoint): void {
+    const drag = this.selectionDrag!
+    drag.transform = this.selected!.computeTransform(drag.handle, drag.pivot, drag.start, point)
+    this.renderSelection()
+  }
+
+  /** 完成拖拽，将变换后的笔迹作为一次变更添加到撤销栈 */
+  private finishSelectionDrag(): void {
+    const transform = this.selectionDrag!.transform
+    if (!transform || (transform.scale === 1 && transform.angle === 0 && transform.dx === 0 && transform.dy === 0)) {
+      this.cancelSelectionDrag()
+      this.renderSelection()
+      return
+    }
+    this.selectionDrag = undefined
+    this.replaceSelection(item => Selection.transformHistory(item, transform))
+  }
+
+  /** 取消拖拽，恢复图层中选中的笔迹 */
+  private cancelSelectionDrag(): void {
+    if (!this.selectionDrag) return
+    this.selectionDrag = undefined
+    this.selectionLayers(this.selected!).forEach(id => this.redraw(id))
+  }
+
+  /**
+   * 替换选中的每一笔，作为一次变更添加到撤销栈，替换后的笔迹保持原来的排序并保持选中
+   *
+   * @param replace 根据原笔迹生成新笔迹
+   */
+  private replaceSelection(replace: (item: BrushHistory) => BrushHistory): void {
+    const items = this.selected!.items
+    const added = items.map(item => {
+      const copy = replace(item)
+      this.orders.set(copy, this.orders.get(item) ?? 0)
+      return copy
+    })
+    this.selected = new Selection(added, this.activeCanvas)
+    this.commitChange({ removed: items, added }).forEach(id => this.redraw(id))
+    this.renderSelection()
+    this.notifyHistoryChange()
+    this.notifySelectionChange()
+  }
+
+  /** 在预览画布上绘制选择框，拖拽期间同时绘制变换后的笔迹 */
+  private renderSelection(): void {
+    this.clearOverlay()
+    const selection = this.selected
+    if (!selection) return
+    const transform = this.selectionDrag?.transform
+    if (this.selectionDrag) {
+      for (const item of selection.items) {
+        const preview = transform ? Selection.transformHistory(item, transform) : item
+        const painter = Brush.fromConfig(preview.configs) as any as BrushPainter
+        painter.replay(this.previewCanvas, preview)
+      }
+    }
+    selection.draw(this.overlay, this.handleSize, transform)
+  }
+
+  /**
+   * 选中笔迹所在的图层
+   *
+   * @param selection 选中的笔迹
+   */
+  private selectionLayers(selection: Selection): Set<string> {
+    return new Set(selection.items.map(x => this.layerOf(x)))
+  }
+
+  /** 选择框控制点大小，在屏幕上保持固定大小 */
+  private get handleSize(): number {
+    return SELECTION_HANDLE_SIZE / (this.position.oScale * this.position.scale)
+  }
+
+  /**
+   * 在历史记录末尾添加一笔，并清空重做历史
+   *
+   * @param history 历史记录
+   */
+  private addHistory(history: BrushHistory): void {
+    this.orders.set(history, this.nextOrder++)
+    this.commitChange({ removed: [], added: [history] })
+  }
+
+  /**
+   * 执行变更并添加到撤销栈，同时清空重做历史
+   *
+   * @param change 历史记录变更
+   * @return 受影响的图层编号
+   */
+  private commitChange(change: HistoryChange): Set<string> {
+    const layers = this.applyChange(change)
+    this.commands.push(this.changeCommand(change))
+    return layers
+  }
+
+  /**
+   * 创建历史记录变更的操作，撤销和重做时重绘受影响的图层
+   *
+   * @param change 历史记录变更
+   */
+  private changeCommand(change: HistoryChange): Command {
+    return {
+      do: () => this.applyChange(change).forEach(id => this.redraw(id)),
+      undo: () => this.applyChange(change, true).forEach(id => this.redraw(id))
+    }
+  }
+
+  /**
+   * 执行或撤销变更，不进行重绘
+   *
+   * @param change  历史记录变更
+   * @param reverse 是否撤销变更
+   * @return 受影响的图层编号
+   */
+  private applyChange(change: HistoryChange, reverse: boolean = false): Set<string> {
+    const removed = reverse ? change.added : change.removed
+    const added = reverse ? change.removed : change.added
+    for (const item of removed) {
+      removeWhere(this.histories, x => x === item)
+    }
+
+    // 按排序插入，排序相同时插入到最后
+    for (const item of added) {
+      const order = this.orders.get(item) ?? 0
+      let index = this.histories.length
+      while (index > 0 && (this.orders.get(this.histories[index - 1]) ?? 0) > order) index--
+      this.histories.splice(index, 0, item)
+    }
+    return new Set([...removed, ...added].map(x => this.layerOf(x)))
+  }
+
+  /** 将当前的每一笔作为一次变更重建撤销栈，并清空重做历史 */
+  private resetUndoStack(): void {
+    this.commands.clear()
+    this.histories.forEach((item, index) => {
+      this.orders.set(item, index)
+      this.commands.push(this.changeCommand({ removed: [], added: [item] }))
+    })
+    this.nextOrder = this.histories.length
+  }
+
+  /**
+   * 查找当前图层中包含指定位置的最上方文字
+   *
+   * @param point 位置
+   */
+  private findTextAt(point: TimePoint): BrushHistory | undefined {
+    const canvas = this.activeCanvas
+    for (let i = this.histories.length - 1; i >= 0; i--) {
+      const item = this.histories[i]
+      if (item.configs.type !== BrushType.text || this.layerOf(item) !== this.activeLayerId) continue
+      if (!item.valid) continue
+      if (outlineOf(item, canvas).fills.some(x => containsPoint(x, point))) return item
+    }
+    return undefined
   }
 
   /** 丢弃当前绘制的这笔 */
   private cleanCurrentDraw(): void {
+    this.cancelSelectionDrag()
     const painter: BrushPainter = this.brush as any as BrushPainter
     const prev = painter.cleanHistory()
-    if (prev) this.redraw()
+    if (this.brush.preview) {
+      this.renderSelection()
+    } else if (prev) {
+      this.redraw(this.activeLayerId)
+    }
   }
 
   /**
    * 相对坐标转笔触坐标
    *
-   * @param x 画布根布局相对横坐标
-   * @param y 画布根布局相对纵坐标
+   * @param x        画布根布局相对横坐标
+   * @param y        画布根布局相对纵坐标
+   * @param pressure 压感，为 0 时表示没有压感
    */
-  private relativePositionToTimePoint(x: number, y: number): TimePoint {
+  private relativePositionToTimePoint(x: number, y: number, pressure: number = 0): TimePoint {
     const p = this.position
     const cx = x - (p.x + p.ox)
     const cy = y - (p.y + p.oy)
     const scale = p.oScale * p.scale
-    return new TimePoint(cx / scale, cy / scale, new Date().getTime())
+    return new TimePoint(cx / scale, cy / scale, new Date().getTime(), pressure)
   }
 
   /**
    * 重新执行绘制
+   *
+   * 每个图层从最近的有效快照开始，只重放快照之后的笔迹
+   *
+   * @param layerId 需要重绘的图层，为空时重绘所有图层
    */
-  private redraw(): void {
-    // 清理画布
-    this.canvas.clearRect(0, 0, this.width, this.height)
-    for (const item of this.histories) {
-      if (!item.valid) continue
-      const brush = Brush.fromConfig(item.configs)
-      const painter = brush as any as BrushPainter
-      for (let i = 2; i < item.points.length; i++) {
-        painter.draw(this.canvas, item.points[i - 2], item.points[i - 1], item.points[i])
+  private redraw(layerId?: string): void {
+    for (const layer of this.layerList) {
+      if (layerId !== undefined && layer.id !== layerId) continue
+      const canvas = layer.canvas
+      const items = this.layerItems(layer.id)
+      const checkpoint = this.checkpoints.find(layer.id, items)
+
+      // 清理画布，并恢复快照，快照只保存图层画布，正片叠底画布仍需重放快照中的笔迹
+      layer.clear()
+      if (checkpoint) canvas.drawImage(checkpoint.surface, 0, 0)
+      const start = checkpoint?.count ?? 0
+      for (let i = 0; i < start; i++) layer.replay(items[i], false)
+
+      for (let i = start; i < items.length; i++) {
+        layer.replay(items[i])
+        this.checkpoints.save(layer.id, items, i + 1, canvas)
       }
     }
   }
 
+  /**
+   * 将回放绘制到指定时刻，已经完成的笔迹直接绘制到图层，正在绘制的一笔每帧从图层备份恢复后重新绘制
+   *
+   * @param session 回放
+   * @param time    时刻
+   */
+  private renderReplay(session: ReplaySession, time: number): void {
+    const timeline = session.timeline
+    const completed = timeline.completed(time)
+
+    // 向前跳转时从头开始绘制
+    if (completed < session.drawn) {
+      this.layerList.forEach(x => x.clear())
+      session.drawn = 0
+      session.pending = undefined
+    }
+
+    // 撤销上一帧绘制的未完成部分
+    const pending = session.pending
+    if (pending) {
+      pending.canvas.clearRect(0, 0, this.width, this.height)
+      pending.canvas.drawImage(pending.backup, 0, 0)
+      if (pending.index < completed) session.pending = undefined
+    }
+
+    for (; session.drawn < completed; session.drawn++) {
+      const history = timeline.historyAt(session.drawn)
+      this.findLayer(this.layerOf(history))?.replay(history)
+    }
+
+    const partial = timeline.partial(completed, time)
+    const canvas = partial && this.findLayer(this.layerOf(partial))?.canvasFor(partial.configs)
+    if (partial && canvas) {
+      if (!session.pending) {
+        const backup = document.createElement('canvas')
+        backup.width = this.width
+        backup.height = this.height
+        backup.getContext('2d')!.drawImage(canvas.canvas, 0, 0)
+        session.pending = { index: completed, canvas, backup }
+      }
+      (Brush.fromConfig(partial.configs) as any as BrushPainter).replay(canvas, partial)
+    }
+    session.time = time
+  }
+
+  /**
+   * 获取图层中需要绘制的历史记录
+   *
+   * @param layerId 图层编号
+   */
+  private layerItems(layerId: string): BrushHistory[] {
+    const hidden = this.selectionDrag ? this.selected?.items : undefined
+    return this.histories.filter(x => {
+      return x.valid && x !== this.editingText && !hidden?.includes(x) && this.layerOf(x) === layerId
+    })
+  }
+
+  /**
+   * 在图层新增一笔后尝试保存快照
+   *
+   * @param layerId 图层编号
+   */
+  private saveCheckpoint(layerId: string): void {
+    const layer = this.findLayer(layerId)
+    if (!layer || !this.checkpoints.enabled) return
+    const items = this.layerItems(layerId)
+    this.checkpoints.save(layerId, items, items.length, layer.canvas)
+  }
+
   /**
    * 计算缩放偏移
    *
@@ -539,39 +2345,32 @@ export class Paper {
     return { x: px - px * scale, y: py - py * scale }
   }
 
-  /** 计算两指之前长度 */
-  private computeLength(event: TouchEvent, rect: DOMRect): number {
-    const a = this.getTouch(event, rect, 0)
-    const b = this.getTouch(event, rect, 1)
+  /** 计算前两个指针之间的长度，指针不足时返回 0 */
+  private computeLength(): number {
+    const [a, b] = this.pointers.values()
+    if (!a || !b) return 0
     return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2))
   }
 
-  /** 获取指定触摸手指位置信息 */
-  private getTouch(event: TouchEvent, rect: DOMRect, index: number = 0): Offset {
-    const touch = event.targetTouches[index] ?? event
-    return this.getTouchFromRawTouch(touch, rect)
-  }
-
-  /** 获取指定触摸手指位置信息 */
-  private getTouchFromRawTouch(touch: Touch, rect: DOMRect): Offset {
-    const x = touch.pageX - rect.x
-    const y = touch.pageY - rect.y
-    return { x, y }
-  }
-
-  /** 计算焦点 */
-  private computeFocus(event: TouchEvent, rect: DOMRect): Offset {
+  /** 计算焦点，即所有活动指针的中心 */
+  private computeFocus(): Offset {
     let sumX = 0, sumY = 0
-    for (const target of event.targetTouches) {
-      const offset = this.getTouchFromRawTouch(target, rect)
+    for (const offset of this.pointers.values()) {
       sumX += offset.x
       sumY += offset.y
     }
-    const size = event.targetTouches.length
+    const size = Math.max(this.pointers.size, 1)
     return { x: sumX / size, y: sumY / size }
   }
 }
 
+/** 带时间的位置，单位为毫秒和 CSS 像素 */
+interface TapRecord {
+  time: number,
+  x: number,
+  y: number
+}
+
 /** 偏移 */
 interface Offset {
   x: number,
@@ -607,6 +2406,66 @@ interface Position {
 
 type AnimationCallback = (controller: AnimationController, value: number) => void;
 
+/** 缓动函数，输入为动画进度 0 ~ 1，输出为插值比例，回弹时可能超出 1 */
+type Easing = (value: number) => number
+
+/** 线性 */
+const LINEAR: Easing = (value) => value
+
+/** 缓出，先快后慢 */
+const EASE_OUT: Easing = (value) => 1 - Math.pow(1 - value, 3)
+
+/** 弹簧，越过终点后回弹，结束时恰好停在终点 */
+const SPRING: Easing = (value) => 1 - Math.exp(-6 * value) * Math.cos(2.5 * Math.PI * value)
+
+/** 历史记录变更，撤销时删除添加的笔迹并按排序恢复删除的笔迹 */
+interface HistoryChange {
+  /** 删除的笔迹 */
+  removed: BrushHistory[]
+
+  /** 添加的笔迹 */
+  added: BrushHistory[]
+}
+
+/** 拖拽中的选择框 */
+interface SelectionDrag {
+  /** 拖拽的控制点 */
+  handle: SelectionHandle
+
+  /** 变换中心 */
+  pivot: Point
+
+  /** 拖拽起点 */
+  start: Point
+
+  /** 当前变换，尚未移动时为空 */
+  transform?: SelectionTransform
+}
+
+/** 回放过程 */
+interface ReplaySession {
+  /** 时间轴 */
+  timeline: ReplayTimeline
+
+  /** 播放速度倍数 */
+  speed: number
+
+  /** 当前播放位置 */
+  time: number
+
+  /** 是否正在播放 */
+  playing: boolean
+
+  /** 已经完整绘制到图层的笔数 */
+  drawn: number
+
+  /** 播放序号，每次开始或停止播放时递增，用于忽略已经取消的动画帧 */
+  run: number
+
+  /** 正在绘制的一笔，以及绘制前的图层备份 */
+  pending?: { index: number, canvas: CanvasRenderingContext2D, backup: HTMLCanvasElement }
+}
+
 /** 动画控制器 */
 class AnimationController {
   /** 当前动画 */
@@ -634,12 +2493,14 @@ class AnimationController {
    * @param frameCallback 动画帧回调
    * @param completedCallback 完成动画回调
    * @param canceledCallback 取消动画回调
+   * @param easing 缓动函数，默认为线性
    */
   public execute(
     duration: number,
     frameCallback: AnimationCallback,
     completedCallback?: AnimationCallback,
-    canceledCallback?: AnimationCallback
+    canceledCallback?: AnimationCallback,
+    easing: Easing = LINEAR
   ): void {
     if (this.animating) return
     const holder: AnimationHolder = {
@@ -647,6 +2508,7 @@ class AnimationController {
       frameCallback,
       completedCallback,
       canceledCallback,
+      easing,
       tick: performance.now(),
       canceled: false
     }
@@ -670,7 +2532,7 @@ class AnimationController {
       const value = (now - holder.tick) / holder.duration
 
       // 执行一帧
-      holder.frameCallback(controller, clampNumber(value, 0, 1))
+      holder.frameCallback(controller, holder.easing(clampNumber(value, 0, 1)))
 
       if (value >= 1) {
         // 完成动画
@@ -703,6 +2565,9 @@ interface AnimationHolder {
   /** 取消回调 */
   canceledCallback?: AnimationCallback
 
+  /** 缓动函数 */
+  easing: Easing
+
   /** 动画持续时间 */
   duration: number,
 
@@ -724,3 +2589,68 @@ interface AnimationHolder {
 function clampNumber(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max)
 }
+
+
+/** 画纸监听的指针事件 */
+const POINTER_EVENTS = ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'] as const
+
+/** 选择框控制点在屏幕上的大小，单位为 CSS 像素 */
+const SELECTION_HANDLE_SIZE = 8
+
+/** 滚轮按行滚动时每行的高度，单位为 CSS 像素 */
+const WHEEL_LINE_HEIGHT = 16
+
+/** 滚轮缩放时单次滚动距离的上限，避免鼠标滚轮一次缩放过多 */
+const WHEEL_MAX_DELTA = 50
+
+/** 滚轮缩放速度，每滚动 1 像素缩放比例变化的指数 */
+const WHEEL_ZOOM_SPEED = 0.01
+
+/** 手掌接触的最小尺寸，接触区域的宽或高超过该值时视为手掌，单位为 CSS 像素 */
+const PALM_CONTACT_SIZE = 40
+
+/** 双击中两次点击的最长间隔，单次点击的最长按下时间也使用该值，单位为毫秒 */
+const DOUBLE_TAP_TIMEOUT = 300
+
+/** 双击中两次点击的最大距离，单位为 CSS 像素 */
+const DOUBLE_TAP_SLOP = 24
+
+/** 计算松手速度时使用的采样时间范围，单位为毫秒 */
+const PAN_VELOCITY_WINDOW = 100
+
+/** 触发惯性滑动的最小速度，单位为像素每毫秒 */
+const FLING_MIN_SPEED = 0.25
+
+/** 惯性滑动的时间常数，滑动距离为松手速度乘以该值，单位为毫秒 */
+const FLING_TIME_CONSTANT = 325
+
+/** 快捷键调整画笔大小的倍数 */
+const BRUSH_SIZE_STEP = 1.25
+
+/** 快捷键调整画笔大小的上限 */
+const MAX_BRUSH_SIZE = 256
+
+/**
+ * 删除数组中满足条件的元素
+ *
+ * @param array 数组
+ * @param predicate 条件
+ * @private
+ */
+function removeWhere<T>(array: T[], predicate: (item: T) => boolean): void {
+  for (let i = array.length - 1; i >= 0; i--) {
+    if (predicate(array[i])) array.splice(i, 1)
+  }
+}
+
+/**
+ * 判断事件目标是否为可编辑元素
+ *
+ * @param target 事件目标
+ * @private
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement
+}
@@ -0,0 +1,186 @@
+import { BrushHistory, BrushType, isShapeType, TimePoint } from './brush'
+
+/**
+ * 历史记录缺少时间信息时，相邻两点之间的默认间隔，单位为毫秒
+ */
+const DEFAULT_POINT_INTERVAL = 16
+
+/**
+ * 回放配置
+ */
+export interface ReplayOptions {
+  /**
+   * 播放速度倍数，默认为 1，即按照绘制时的真实时间播放
+   */
+  speed?: number
+
+  /**
+   * 两笔之间的最长停顿，单位为毫秒，默认为 1000，设为 `Infinity` 时保留真实停顿
+   */
+  maxGap?: number
+}
+
+/**
+ * 回放状态
+ */
+export interface ReplayState {
+  /** 是否处于回放中，回放期间不能绘制 */
+  active: boolean
+
+  /** 是否正在播放，暂停时为 `false` */
+  playing: boolean
+
+  /** 当前播放位置，单位为毫秒 */
+  time: number
+
+  /** 回放总时长，单位为毫秒 */
+  duration: number
+}
+
+/** 时间轴中的一笔 */
+interface ReplayItem {
+  /** 历史记录 */
+  history: BrushHistory
+
+  /** 开始时间 */
+  start: number
+
+  /** 结束时间 */
+  end: number
+
+  /** 每个点相对开始时间的偏移 */
+  offsets: number[]
+}
+
+/**
+ * 回放时间轴
+ *
+ * 按照历史记录顺序依次排列每一笔，笔内使用时间点记录的真实时间，笔与笔之间的停顿不超过 `maxGap`
+ */
+export class ReplayTimeline {
+  /** 时间轴总时长 */
+  public readonly duration: number
+
+  /** 时间轴中的每一笔，按开始时间排列 */
+  private readonly items: ReplayItem[] = []
+
+  /**
+   * 构造时间轴
+   *
+   * @param histories 需要回放的历史记录
+   * @param maxGap    两笔之间的最长停顿
+   */
+  public constructor(histories: BrushHistory[], maxGap: number) {
+    let time = 0
+    let prev: BrushHistory | undefined = undefined
+    for (const history of histories) {
+      if (prev) time += ReplayTimeline.gapOf(prev, history, maxGap)
+      const offsets = ReplayTimeline.offsetsOf(history)
+      const end = time + offsets[offsets.length - 1]
+      this.items.push({ history, start: time, end, offsets })
+      time = end
+      prev = history
+    }
+    this.duration = time
+  }
+
+  /** 时间轴中的笔数 */
+  public get length(): number {
+    return this.items.length
+  }
+
+  /**
+   * 获取第 `index` 笔的历史记录
+   *
+   * @param index 序号
+   */
+  public historyAt(index: number): BrushHistory {
+    return this.items[index].history
+  }
+
+  /**
+   * 计算指定时刻已经完成的笔数
+   *
+   * @param time 时刻
+   */
+  public completed(time: number): number {
+    let low = 0, high = this.items.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (this.items[middle].end <= time) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  /**
+   * 截取第 `index` 笔在指定时刻已经绘制的部分，尚未开始时返回空
+   *
+   * 形状的终点从起点逐渐移动到最终位置，文字在开始时刻完整出现
+   *
+   * @param index 序号
+   * @param time  时刻
+   */
+  public partial(index: number, time: number): BrushHistory | undefined {
+    const item = this.items[index]
+    if (!item || time < item.start) return undefined
+    const history = item.history
+    if (time >= item.end) return history
+
+    const elapsed = time - item.start
+    let points: TimePoint[]
+    if (isShapeType(history.configs.type)) {
+      const first = history.first, last = history.current
+      const ratio = item.end > item.start ? elapsed / (item.end - item.start) : 1
+      points = [first, new TimePoint(
+        first.x + (last.x - first.x) * ratio,
+        first.y + (last.y - first.y) * ratio,
+        first.time + elapsed,
+        last.pressure
+      )]
+    } else {
+      points = history.points.filter((_, i) => item.offsets[i] <= elapsed)
+    }
+
+    const result = new BrushHistory(history.configs, points, history.layer)
+    result.text = history.text
+    result.rotation = history.rotation
+    result.mask = history.mask
+    return result
+  }
+
+  /**
+   * 计算每个点相对第一个点的时间偏移，缺少时间信息时按默认间隔均匀分布
+   *
+   * @param history 历史记录
+   */
+  private static offsetsOf(history: BrushHistory): number[] {
+    const points = history.points
+    if (history.configs.type === BrushType.text || points.length === 0) return [0]
+
+    const first = points[0].time
+    if (points[points.length - 1].time <= first) {
+      return points.map((_, i) => i * DEFAULT_POINT_INTERVAL)
+    }
+
+    // 保证偏移单调递增
+    let offset = 0
+    return points.map(x => offset = Math.max(offset, x.time - first))
+  }
+
+  /**
+   * 计算两笔之间的停顿
+   *
+   * @param prev    上一笔
+   * @param current 当前笔
+   * @param maxGap  最长停顿
+   */
+  private static gapOf(prev: BrushHistory, current: BrushHistory, maxGap: number): number {
+    const gap = (current.first?.time ?? 0) - (prev.current?.time ?? 0)
+    if (!Number.isFinite(gap) || gap <= 0) return 0
+    return Math.min(gap, Math.max(maxGap, 0))
+  }
+}
@@ -0,0 +1,296 @@
+import { BrushHistory, BrushType, TimePoint } from './brush'
+import { boundsOf, containsPoint, outlineOf, type Point, rotatePoint } from './geometry'
+
+/** 选中笔迹时，轮廓采样点在选择范围内的最少比例 */
+const SELECT_RATIO = 0.5
+
+/**
+ * 选择框的控制点
+ *
+ * `move`: 选择框内部，拖拽移动。
+ * `scale`: 四个角，以对角为中心等比缩放。
+ * `rotate`: 顶部的旋转控制点，以选择框中心旋转。
+ */
+export type SelectionHandle = 'move' | 'scale' | 'rotate'
+
+/**
+ * 选中笔迹的变换，先以 `pivot` 为中心缩放和旋转，再平移
+ */
+export interface SelectionTransform {
+  /** 变换中心 */
+  pivot: Point
+
+  /** 缩放比例 */
+  scale: number
+
+  /** 旋转角度，单位为弧度 */
+  angle: number
+
+  /** 横向平移 */
+  dx: number
+
+  /** 纵向平移 */
+  dy: number
+}
+
+/** 选择框范围 */
+interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * 选中的笔迹
+ *
+ * 负责选择框的绘制、控制点的碰撞检测，以及根据拖拽计算变换后的笔迹
+ */
+export class Selection {
+  /**
+   * 选中选择范围内的笔迹
+   *
+   * 套索为拖拽路径围成的多边形，矩形为起点和终点构成的矩形，
+   * 笔迹轮廓有一半以上的采样点在范围内时选中
+   *
+   * @param histories 候选笔迹
+   * @param area      选择工具的历史记录
+   * @param canvas    用于测量文字的画布
+   */
+  public static select(
+    histories: BrushHistory[],
+    area: BrushHistory,
+    canvas: CanvasRenderingContext2D
+  ): BrushHistory[] {
+    let polygon: Point[] = area.points
+    if (area.configs.selectMode === 'rectangle') {
+      const start = area.first, end = area.current
+      polygon = [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }]
+    }
+    if (polygon.length < 3) return []
+
+    return histories.filter(history => {
+      const outline = outlineOf(history, canvas)
+      const points = [...outline.strokes.flatMap(x => x.points), ...outline.fills.flat()]
+      if (points.length === 0) return false
+      const inside = points.filter(p => containsPoint(polygon, p)).length
+      return inside / points.length >= SELECT_RATIO
+    })
+  }
+
+  /**
+   * 将变换应用到一笔，返回变换后的副本
+   *
+   * 矩形和椭圆只移动中点，大小随缩放变化，旋转记录在 `rotation` 中；
+   * 文字移动左上角并记录旋转；其余笔迹直接变换每个点。画笔大小随缩放变化
+   *
+   * @param history   历史记录
+   * @param transform 变换
+   */
+  public static transformHistory(history: BrushHistory, transform: SelectionTransform): BrushHistory {
+    const { scale, angle } = transform
+    const map = (p: TimePoint) => {
+      const point = Selection.transformPoint(p, transform)
+      return new TimePoint(point.x, point.y, p.time, p.pressure)
+    }
+
+    let points: TimePoint[]
+    let rotation = history.rotation
+    const type = history.configs.type
+    if (type === BrushType.rectangle || type === BrushType.ellipse) {
+      const first = history.first, last = history.current
+      const center = map(TimePoint.middle(first, last))
+      const hx = (last.x - first.x) / 2 * scale, hy = (last.y - first.y) / 2 * scale
+      points = [
+        new TimePoint(center.x - hx, center.y - hy, first.time, first.pressure),
+        new TimePoint(center.x + hx, center.y + hy, last.time, last.pressure)
+      ]
+      rotation = (rotation ?? 0) + angle
+    } else {
+      points = history.points.map(map)
+      if (type === BrushType.text) rotation = (rotation ?? 0) + angle
+    }
+
+    const result = new BrushHistory(
+      { ...history.configs, size: history.configs.size * scale },
+      points,
+      history.layer
+    )
+    result.text = history.text
+    result.rotation = rotation || undefined
+    return result
+  }
+
+  /**
+   * 变换一个点
+   *
+   * @param p         坐标
+   * @param transform 变换
+   */
+  public static transformPoint(p: Point, transform: SelectionTransform): Point {
+    const { pivot, scale, angle, dx, dy } = transform
+    const scaled = { x: pivot.x + (p.x - pivot.x) * scale, y: pivot.y + (p.y - pivot.y) * scale }
+    const rotated = rotatePoint(scaled, pivot, angle)
+    return { x: rotated.x + dx, y: rotated.y + dy }
+  }
+
+  /** 选中的笔迹 */
+  public readonly items: BrushHistory[]
+
+  /** 选择框范围，不包含外边距 */
+  private readonly bounds: Bounds
+
+  /**
+   * 构造选中的笔迹
+   *
+   * @param items  选中的笔迹
+   * @param canvas 用于测量文字的画布
+   */
+  public constructor(items: BrushHistory[], canvas: CanvasRenderingContext2D) {
+    this.items = items
+    this.bounds = Selection.boundsOf(items, canvas)
+  }
+
+  /** 选择框中心 */
+  public get center(): Point {
+    const { left, top, right, bottom } = this.bounds
+    return { x: (left + right) / 2, y: (top + bottom) / 2 }
+  }
+
+  /**
+   * 检测坐标位于哪个控制点
+   *
+   * @param point 坐标
+   * @param size  控制点大小
+   * @return 不在选择框上时返回空
+   */
+  public hitTest(point: Point, size: number): { handle: SelectionHandle, pivot: Point } | undefined {
+    const corners = this.corners(size)
+    const rotate = this.rotateHandle(size)
+    if (Math.hypot(point.x - rotate.x, point.y - rotate.y) <= size) {
+      return { handle: 'rotate', pivot: this.center }
+    }
+    for (let i = 0; i < corners.length; i++) {
+      const corner = corners[i]
+      if (Math.abs(point.x - corner.x) <= size && Math.abs(point.y - corner.y) <= size) {
+        return { handle: 'scale', pivot: corners[(i + 2) % 4] }
+      }
+    }
+    if (containsPoint(corners, point)) return { handle: 'move', pivot: this.center }
+    return undefined
+  }
+
+  /**
+   * 根据拖拽计算变换
+   *
+   * @param handle 拖拽的控制点
+   * @param pivot  变换中心
+   * @param start  拖拽起点
+   * @param end    拖拽终点
+   */
+  public computeTransform(handle: SelectionHandle, pivot: Point, start: Point, end: Point): SelectionTransform {
+    const transform: SelectionTransform = { pivot, scale: 1, angle: 0, dx: 0, dy: 0 }
+    if (handle === 'move') {
+      transform.dx = end.x - start.x
+      transform.dy = end.y - start.y
+    } else if (handle === 'scale') {
+      // 投影到对角线上计算等比缩放
+      const vx = start.x - pivot.x, vy = start.y - pivot.y
+      const length = vx * vx + vy * vy
+      const scale = length > 0 ? ((end.x - pivot.x) * vx + (end.y - pivot.y) * vy) / length : 1
+      transform.scale = Math.max(scale, 0.05)
+    } else {
+      transform.angle = Math.atan2(end.y - pivot.y, end.x - pivot.x) -
+        Math.atan2(start.y - pivot.y, start.x - pivot.x)
+    }
+    return transform
+  }
+
+  /**
+   * 在预览画布上绘制选择框
+   *
+   * @param canvas    预览画布
+   * @param size      控制点大小
+   * @param transform 拖拽中的变换，选择框跟随变换
+   */
+  public draw(canvas: CanvasRenderingContext2D, size: number, transform?: SelectionTransform): void {
+    const map = (p: Point) => transform ? Selection.transformPoint(p, transform) : p
+    const base = this.corners(size)
+    const corners = base.map(map)
+    const topCenter = map({ x: (base[0].x + base[1].x) / 2, y: base[0].y })
+    const rotate = map(this.rotateHandle(size))
+
+    canvas.save()
+    try {
+      canvas.globalCompositeOperation = 'source-over'
+      canvas.strokeStyle = '#1E88E5'
+      canvas.fillStyle = '#FFFFFF'
+      canvas.lineWidth = size / 4
+      canvas.setLineDash([size / 2, size / 2])
+
+      // 选择框以及旋转控制点的连线
+      canvas.beginPath()
+      corners.forEach((p, index) => index === 0 ? canvas.moveTo(p.x, p.y) : canvas.lineTo(p.x, p.y))
+      canvas.closePath()
+      canvas.moveTo(topCenter.x, topCenter.y)
+      canvas.lineTo(rotate.x, rotate.y)
+      canvas.stroke()
+
+      // 控制点
+      canvas.setLineDash([])
+      canvas.beginPath()
+      for (const p of corners) {
+        canvas.rect(p.x - size / 2, p.y - size / 2, size, size)
+      }
+      canvas.moveTo(rotate.x + size / 2, rotate.y)
+      canvas.arc(rotate.x, rotate.y, size / 2, 0, Math.PI * 2)
+      canvas.fill()
+      canvas.stroke()
+    } finally {
+      canvas.restore()
+    }
+  }
+
+  /**
+   * 选择框四个角，从左上角顺时针排列，包含外边距
+   *
+   * @param size 控制点大小
+   */
+  private corners(size: number): Point[] {
+    const { left, top, right, bottom } = this.bounds
+    return [
+      { x: left - size, y: top - size },
+      { x: right + size, y: top - size },
+      { x: right + size, y: bottom + size },
+      { x: left - size, y: bottom + size }
+    ]
+  }
+
+  /**
+   * 旋转控制点位置
+   *
+   * @param size 控制点大小
+   */
+  private rotateHandle(size: number): Point {
+    const { left, top, right } = this.bounds
+    return { x: (left + right) / 2, y: top - size * 4 }
+  }
+
+  /**
+   * 计算笔迹的包围盒
+   *
+   * @param items  笔迹
+   * @param canvas 用于测量文字的画布
+   */
+  private static boundsOf(items: BrushHistory[], canvas: CanvasRenderingContext2D): Bounds {
+    const result: Bounds = { left: Infinity, top: Infinity, right: -Infinity, bottom: -Infinity }
+    for (const item of items) {
+      const bounds = boundsOf(outlineOf(item, canvas))
+      result.left = Math.min(result.left, bounds.left)
+      result.top = Math.min(result.top, bounds.top)
+      result.right = Math.max(result.right, bounds.right)
+      result.bottom = Math.max(result.bottom, bounds.bottom)
+    }
+    return result
+  }
+}
@@ -0,0 +1,472 @@
+import { type BrushConfigs, BrushHistory, BrushType, isBrushRegistered, TimePoint } from './brush'
+import type { FillMask } from './fill'
+import { DEFAULT_LAYER_ID, type LayerConfigs } from './layer'
+import type { PaperHistory } from './paper'
+
+/**
+ * 当前序列化格式版本，每次修改格式时递增
+ *
+ * - 1: 画笔类型 `marking`、`eraser`，配置 `dynamic`
+ * - 2: 图层，新增 `layers` 与 `layer`
+ * - 3: 画笔类型 `line`、`arrow`、`rectangle`、`ellipse`，配置 `fill`
+ * - 4: 画笔类型 `text`，新增 `text` 与配置 `font`
+ * - 5: 配置 `eraseMode`
+ * - 6: 新增 `rotation`
+ * - 7: 画笔类型 `fill`，新增 `mask` 与配置 `tolerance`、`gapSize`、`sampleImage`
+ * - 8: 画笔类型 `highlighter`、`pencil`、`spray`
+ * - 9: 通过 `registerBrush` 注册的自定义画笔类型
+ * - 10: 配置 `stabilizer`、`stabilizerStrength`、`simplify`
+ *
+ * 读取旧版本时，该版本之后新增的字段和画笔类型视为格式错误，缺省的字段使用当时的默认值：
+ * 所有笔迹属于默认图层，`fill` 为 `false`，`eraseMode` 为 `pixel`，不旋转，不防抖也不简化
+ */
+export const HISTORY_VERSION = 10
+
+/** 内置画笔类型开始出现的版本 */
+const BRUSH_TYPE_VERSIONS: Record<string, number> = {
+  [BrushType.marking]: 1,
+  [BrushType.eraser]: 1,
+  [BrushType.line]: 3,
+  [BrushType.arrow]: 3,
+  [BrushType.rectangle]: 3,
+  [BrushType.ellipse]: 3,
+  [BrushType.text]: 4,
+  [BrushType.select]: 6,
+  [BrushType.fill]: 7,
+  [BrushType.highlighter]: 8,
+  [BrushType.pencil]: 8,
+  [BrushType.spray]: 8
+}
+
+/** 自定义画笔类型开始出现的版本 */
+const CUSTOM_BRUSH_VERSION = 9
+
+/** 可选配置开始出现的版本 */
+const CONFIG_VERSIONS: Record<string, number> = {
+  dynamic: 1,
+  fill: 3,
+  font: 4,
+  eraseMode: 5,
+  tolerance: 7,
+  gapSize: 7,
+  sampleImage: 7,
+  stabilizer: 10,
+  stabilizerStrength: 10,
+  simplify: 10
+}
+
+/** 每笔历史记录中可选字段开始出现的版本 */
+const FIELD_VERSIONS: Record<string, number> = {
+  layer: 2,
+  text: 4,
+  rotation: 6,
+  mask: 7
+}
+
+/**
+ * 每个时间点在 `points` 数组中占用的数值个数
+ */
+const POINT_STRIDE = 4
+
+/**
+ * 序列化后的历史记录
+ *
+ * 可以直接使用 `JSON.stringify` 保存，结构如下：
+ *
+ * ```json
+ * {
+ *   "version": 10,
+ *   "width": 1080,
+ *   "height": 1920,
+ *   "histories": [
+ *     {
+ *       "configs": {
+ *         "type": "marking", "color": 957515, "alpha": 1, "size": 8,
+ *         "cap": "round", "join": "round", "blendMode": "source-over"
+ *       },
+ *       "time": 1718841600000,
+ *       "points": [12.5, 30.25, 0, 0, 14, 31.5, 16, 0],
+ *       "layer": "layer-1"
+ *     }
+ *   ],
+ *   "layers": [
+ *     { "id": "default", "name": "Default", "visible": true, "opacity": 1, "blendMode": "normal" },
+ *     { "id": "layer-1", "name": "Layer 2", "visible": true, "opacity": 0.5, "blendMode": "multiply" }
+ *   ]
+ * }
+ * ```
+ *
+ * `points` 中每 4 个数值表示一个时间点，依次为：横坐标、纵坐标、相对 `time` 的时间偏移（毫秒）、压感
+ *
+ * `layers` 与 `layer` 为可选字段，缺省时所有笔迹属于默认图层；`text` 仅在文字记录中出现；
+ * `rotation` 仅在旋转过的矩形、椭圆和文字中出现；`mask` 仅在填充中出现，记录游程编码的填充区域
+ */
+export interface SerializedPaperHistory {
+  /** 格式版本 */
+  version: number
+
+  /** 画布宽度 */
+  width: number
+
+  /** 画布高度 */
+  height: number
+
+  /** 每一笔的历史记录 */
+  histories: SerializedBrushHistory[]
+
+  /** 图层列表，从下到上排列 */
+  layers?: LayerConfigs[]
+}
+
+/**
+ * 序列化后的每一笔历史记录
+ */
+export interface SerializedBrushHistory {
+  /** 画笔配置 */
+  configs: BrushConfigs
+
+  /** 第一个点的时间，整数类型 */
+  time: number
+
+  /** 紧凑的时间点数组，每 4 个数值表示一个时间点 */
+  points: number[]
+
+  /** 所属图层编号，缺省时属于默认图层 */
+  layer?: string
+
+  /** 文字内容，仅文字有效 */
+  text?: string
+
+  /** 旋转角度，单位为弧度，仅对矩形、椭圆和文字有效 */
+  rotation?: number
+
+  /** 填充区域，仅填充有效 */
+  mask?: FillMask
+}
+
+/** 允许的线段末端属性 */
+const LINE_CAPS = ['butt', 'round', 'square']
+
+/** 允许的连接属性 */
+const LINE_JOINS = ['bevel', 'round', 'miter']
+
+/** 允许的混合模式 */
+const BLEND_MODES = [
+  'source-over', 'source-in', 'source-out', 'source-atop', 'destination-over', 'destination-in',
+  'destination-out', 'destination-atop', 'lighter', 'copy', 'xor', 'multiply', 'screen', 'overlay',
+  'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference',
+  'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]
+
+/** 允许的橡皮擦模式 */
+const ERASE_MODES = ['pixel', 'stroke', 'split']
+
+/** 允许的防抖模式 */
+const STABILIZER_MODES = ['none', 'lazy', 'average']
+
+/** 允许的图层混合模式 */
+const LAYER_BLEND_MODES = [
+  'normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn',
+  'hard-light', 'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]
+
+/**
+ * 将历史记录序列化为带版本号的 JSON 对象
+ *
+ * @param history 历史记录
+ */
+export function serializeHistory(history: PaperHistory): SerializedPaperHistory {
+  const result: SerializedPaperHistory = {
+    version: HISTORY_VERSION,
+    width: history.width,
+    height: history.height,
+    histories: history.histories.map(serializeBrushHistory)
+  }
+  if (history.layers) result.layers = history.layers.map(x => ({ ...x }))
+  return result
+}
+
+/**
+ * 从 JSON 字符串或 JSON 对象恢复历史记录，格式不正确时抛出异常
+ *
+ * @param data 通过 `serializeHistory` 生成的数据
+ */
+export function deserializeHistory(data: string | SerializedPaperHistory): PaperHistory {
+  const json: unknown = typeof data === 'string' ? JSON.parse(data) : data
+  if (!isObject(json)) throw historyError('root must be an object')
+
+  const version = json.version
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw historyError('version is missing')
+  }
+  if ((version as number) > HISTORY_VERSION) {
+    throw historyError(`version ${version} is not supported`)
+  }
+
+  const width = json.width, height = json.height
+  if (!isPositiveInteger(width) || !isPositiveInteger(height)) {
+    throw historyError('width and height must be positive integers')
+  }
+  if (!Array.isArray(json.histories)) throw historyError('histories must be an array')
+  if (json.layers !== undefined) assertVersion(version as number, 2, 'layers')
+
+  const layers = json.layers === undefined ? undefined : deserializeLayers(json.layers)
+  const layerIds = new Set([DEFAULT_LAYER_ID, ...(layers ?? []).map(x => x.id)])
+  const histories = json.histories.map((item, index) => {
+    const history = deserializeBrushHistory(item, index, version as number)
+    if (history.layer !== undefined && !layerIds.has(history.layer)) {
+      throw historyError(`histories[${index}].layer '${history.layer}' is unknown`)
+    }
+    return history
+  })
+
+  const result: PaperHistory = { width: width as number, height: height as number, histories }
+  if (layers) result.layers = layers
+  return result
+}
+
+/**
+ * 检查历史记录中的画笔类型是否都可用，存在未注册的类型时抛出异常
+ *
+ * @param history 历史记录
+ */
+export function assertBrushTypes(history: PaperHistory): void {
+  history.histories.forEach((item, index) => {
+    const type = item.configs.type
+    if (!isBrushRegistered(type)) throw historyError(`histories[${index}].configs.type '${type}' is not registered`)
+  })
+}
+
+/**
+ * 判断历史记录是否为序列化后的格式
+ *
+ * @param history 历史记录
+ */
+export function isSerializedHistory(
+  history: PaperHistory | SerializedPaperHistory
+): history is SerializedPaperHistory {
+  return 'version' in history
+}
+
+/** 序列化一笔历史记录 */
+function serializeBrushHistory(history: BrushHistory): SerializedBrushHistory {
+  const time = history.first?.time ?? 0
+  const points: number[] = []
+  for (const point of history.points) {
+    points.push(round(point.x, 2), round(point.y, 2), point.time - time, round(point.pressure, 3))
+  }
+  const result: SerializedBrushHistory = { configs: { ...history.configs }, time, points }
+  if (history.layer !== undefined && history.layer !== DEFAULT_LAYER_ID) {
+    result.layer = history.layer
+  }
+  if (history.text !== undefined) result.text = history.text
+  if (history.rotation) result.rotation = round(history.rotation, 6)
+  if (history.mask) result.mask = { ...history.mask, runs: [...history.mask.runs] }
+  return result
+}
+
+/** 反序列化一笔历史记录 */
+function deserializeBrushHistory(item: unknown, index: number, version: number): BrushHistory {
+  if (!isObject(item)) throw historyError(`histories[${index}] must be an object`)
+  for (const [field, since] of Object.entries(FIELD_VERSIONS)) {
+    if (item[field] !== undefined) assertVersion(version, since, `histories[${index}].${field}`)
+  }
+
+  const configs = deserializeConfigs(item.configs, index, version)
+  const time = item.time
+  if (!Number.isInteger(time)) throw historyError(`histories[${index}].time must be an integer`)
+
+  const values = item.points
+  if (!Array.isArray(values) || values.length % POINT_STRIDE !== 0) {
+    throw historyError(`histories[${index}].points must be an array of ${POINT_STRIDE}-tuples`)
+  }
+  if (!values.every(isFiniteNumber)) {
+    throw historyError(`histories[${index}].points must only contain finite numbers`)
+  }
+
+  const points: TimePoint[] = []
+  for (let i = 0; i < values.length; i += POINT_STRIDE) {
+    const pressure = clamp(values[i + 3], 0, 1)
+    points.push(new TimePoint(values[i], values[i + 1], (time as number) + values[i + 2], pressure))
+  }
+
+  const layer = item.layer
+  if (layer !== undefined && typeof layer !== 'string') {
+    throw historyError(`histories[${index}].layer must be a string`)
+  }
+  const text = item.text
+  if (text !== undefined && typeof text !== 'string') {
+    throw historyError(`histories[${index}].text must be a string`)
+  }
+
+  const rotation = item.rotation
+  if (rotation !== undefined && !isFiniteNumber(rotation)) {
+    throw historyError(`histories[${index}].rotation must be a number`)
+  }
+
+  const mask = item.mask === undefined ? undefined : deserializeMask(item.mask, index)
+
+  const history = new BrushHistory(configs, points, layer === DEFAULT_LAYER_ID ? undefined : layer)
+  history.text = text
+  history.rotation = rotation
+  history.mask = mask
+  return history
+}
+
+/** 校验并复制填充区域 */
+function deserializeMask(mask: unknown, index: number): FillMask {
+  const path = `histories[${index}].mask`
+  if (!isObject(mask)) throw historyError(`${path} must be an object`)
+
+  const { x, y, width, height, runs } = mask
+  if (!Number.isInteger(x) || !Number.isInteger(y)) throw historyError(`${path}.x and y must be integers`)
+  if (!isPositiveInteger(width) || !isPositiveInteger(height)) {
+    throw historyError(`${path}.width and height must be positive integers`)
+  }
+  if (!Array.isArray(runs) || !runs.every(x => Number.isInteger(x) && x >= 0)) {
+    throw historyError(`${path}.runs must be an array of non-negative integers`)
+  }
+  if (runs.reduce((sum, x) => sum + x, 0) !== (width as number) * (height as number)) {
+    throw historyError(`${path}.runs must cover width * height pixels`)
+  }
+  return { x, y, width, height, runs: [...runs] } as FillMask
+}
+
+/** 校验并复制图层配置 */
+function deserializeLayers(layers: unknown): LayerConfigs[] {
+  if (!Array.isArray(layers)) throw historyError('layers must be an array')
+
+  const ids = new Set<string>()
+  return layers.map((item, index) => {
+    const path = `layers[${index}]`
+    if (!isObject(item)) throw historyError(`${path} must be an object`)
+
+    const { id, name, visible, opacity, blendMode } = item
+    if (typeof id !== 'string' || id.length === 0) {
+      throw historyError(`${path}.id must be a non-empty string`)
+    }
+    if (ids.has(id)) throw historyError(`${path}.id '${id}' is duplicated`)
+    ids.add(id)
+    if (typeof name !== 'string') throw historyError(`${path}.name must be a string`)
+    if (typeof visible !== 'boolean') throw historyError(`${path}.visible must be a boolean`)
+    if (!isFiniteNumber(opacity) || opacity < 0 || opacity > 1) {
+      throw historyError(`${path}.opacity must be a number in 0 ~ 1`)
+    }
+    if (!LAYER_BLEND_MODES.includes(blendMode as string)) {
+      throw historyError(`${path}.blendMode '${blendMode}' is unknown`)
+    }
+    return { id, name, visible, opacity, blendMode } as LayerConfigs
+  })
+}
+
+/** 校验并复制画笔配置 */
+function deserializeConfigs(configs: unknown, index: number, version: number): BrushConfigs {
+  const path = `histories[${index}].configs`
+  if (!isObject(configs)) throw historyError(`${path} must be an object`)
+  for (const [field, since] of Object.entries(CONFIG_VERSIONS)) {
+    if (configs[field] !== undefined) assertVersion(version, since, `${path}.${field}`)
+  }
+
+  const {
+    type, color, alpha, size, cap, join, blendMode, dynamic, fill, font, eraseMode, tolerance, gapSize, sampleImage,
+    stabilizer, stabilizerStrength, simplify
+  } = configs
+  if (typeof type !== 'string' || !isBrushRegistered(type)) {
+    throw historyError(`${path}.type '${type}' is unknown, custom brushes must be registered before loading`)
+  }
+  assertVersion(version, BRUSH_TYPE_VERSIONS[type] ?? CUSTOM_BRUSH_VERSION, `${path}.type '${type}'`)
+  if (!Number.isInteger(color) || (color as number) < 0 || (color as number) > 0xFFFFFF) {
+    throw historyError(`${path}.color must be an integer in 0x000000 ~ 0xFFFFFF`)
+  }
+  if (!isFiniteNumber(alpha) || alpha < 0 || alpha > 1) {
+    throw historyError(`${path}.alpha must be a number in 0 ~ 1`)
+  }
+  if (!isFiniteNumber(size)) throw historyError(`${path}.size must be a number`)
+  if (!LINE_CAPS.includes(cap as string)) throw historyError(`${path}.cap '${cap}' is unknown`)
+  if (!LINE_JOINS.includes(join as string)) throw historyError(`${path}.join '${join}' is unknown`)
+  if (!BLEND_MODES.includes(blendMode as string)) {
+    throw historyError(`${path}.blendMode '${blendMode}' is unknown`)
+  }
+  if (dynamic !== undefined && typeof dynamic !== 'boolean') {
+    throw historyError(`${path}.dynamic must be a boolean`)
+  }
+  if (fill !== undefined && typeof fill !== 'boolean') {
+    throw historyError(`${path}.fill must be a boolean`)
+  }
+
+  if (font !== undefined && typeof font !== 'string') {
+    throw historyError(`${path}.font must be a string`)
+  }
+  if (eraseMode !== undefined && !ERASE_MODES.includes(eraseMode as string)) {
+    throw historyError(`${path}.eraseMode '${eraseMode}' is unknown`)
+  }
+  if (tolerance !== undefined && (!isFiniteNumber(tolerance) || tolerance < 0 || tolerance > 255)) {
+    throw historyError(`${path}.tolerance must be a number in 0 ~ 255`)
+  }
+  if (gapSize !== undefined && (!isFiniteNumber(gapSize) || gapSize < 0)) {
+    throw historyError(`${path}.gapSize must be a non-negative number`)
+  }
+  if (sampleImage !== undefined && typeof sampleImage !== 'boolean') {
+    throw historyError(`${path}.sampleImage must be a boolean`)
+  }
+  if (stabilizer !== undefined && !STABILIZER_MODES.includes(stabilizer as string)) {
+    throw historyError(`${path}.stabilizer '${stabilizer}' is unknown`)
+  }
+  if (stabilizerStrength !== undefined && (!isFiniteNumber(stabilizerStrength) || stabilizerStrength < 0)) {
+    throw historyError(`${path}.stabilizerStrength must be a non-negative number`)
+  }
+  if (simplify !== undefined && (!isFiniteNumber(simplify) || simplify < 0)) {
+    throw historyError(`${path}.simplify must be a non-negative number`)
+  }
+
+  const result = { type, color, alpha, size, cap, join, blendMode } as BrushConfigs
+  if (dynamic !== undefined) result.dynamic = dynamic
+  if (fill !== undefined) result.fill = fill
+  if (font !== undefined) result.font = font
+  if (eraseMode !== undefined) result.eraseMode = eraseMode as BrushConfigs['eraseMode']
+  // 版本 5 之前的橡皮擦只能擦除像素
+  if (eraseMode === undefined && type === BrushType.eraser && version < 5) result.eraseMode = 'pixel'
+  if (tolerance !== undefined) result.tolerance = tolerance
+  if (gapSize !== undefined) result.gapSize = gapSize
+  if (sampleImage !== undefined) result.sampleImage = sampleImage
+  if (stabilizer !== undefined) result.stabilizer = stabilizer as BrushConfigs['stabilizer']
+  if (stabilizerStrength !== undefined) result.stabilizerStrength = stabilizerStrength
+  if (simplify !== undefined) result.simplify = simplify
+
+  // 自定义画笔保留额外的配置
+  if (!Object.values<string>(BrushType).includes(type)) {
+    return { ...configs, ...result }
+  }
+  return result
+}
+
+/** 检查字段是否在当前版本中可用 */
+function assertVersion(version: number, since: number, field: string): void {
+  if (version < since) throw historyError(`${field} requires version ${since}, got ${version}`)
+}
+
+/** 创建历史记录格式错误 */
+function historyError(message: string): Error {
+  return new Error(`Invalid history: ${message}.`)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,69 @@
+/**
+ * 快捷键操作
+ *
+ * `undo`: 撤销。
+ * `redo`: 重做。
+ * `fitCenter`: 居中显示。
+ * `decreaseSize`: 减小当前画笔大小。
+ * `increaseSize`: 增大当前画笔大小。
+ * `deleteSelection`: 删除选中的笔迹。
+ */
+export type ShortcutAction = 'undo' | 'redo' | 'fitCenter' | 'decreaseSize' | 'increaseSize' | 'deleteSelection'
+
+/**
+ * 快捷键映射，每个操作对应一组按键组合，未配置的操作使用默认按键，设为空数组时禁用
+ *
+ * 按键组合由 `+` 连接，最后一段为按键，与 `KeyboardEvent.key`（不区分大小写）或 `KeyboardEvent.code` 比较，
+ * 修饰键可以为 `Mod`、`Ctrl`、`Meta`、`Alt` 和 `Shift`，其中 `Mod` 匹配 `Ctrl` 或 `Meta`，例如 `Shift+Mod+Z`
+ */
+export type KeyMap = { [K in ShortcutAction]?: string[] }
+
+/**
+ * 默认快捷键
+ */
+export const DEFAULT_KEY_MAP: Required<KeyMap> = {
+  undo: ['Mod+Z'],
+  redo: ['Shift+Mod+Z', 'Mod+Y'],
+  fitCenter: ['0'],
+  decreaseSize: ['['],
+  increaseSize: [']'],
+  deleteSelection: ['Delete', 'Backspace']
+}
+
+/**
+ * 查找键盘事件对应的操作
+ *
+ * @param keyMap 快捷键映射，未配置的操作使用默认按键
+ * @param event  键盘事件
+ * @return 没有匹配的操作时返回空
+ */
+export function matchShortcut(keyMap: KeyMap, event: KeyboardEvent): ShortcutAction | undefined {
+  const merged: Required<KeyMap> = { ...DEFAULT_KEY_MAP, ...keyMap }
+  for (const action of Object.keys(merged) as ShortcutAction[]) {
+    if (merged[action]?.some(x => matchKey(x, event))) return action
+  }
+  return undefined
+}
+
+/**
+ * 按键组合是否与键盘事件匹配，修饰键需要完全一致
+ *
+ * @param shortcut 按键组合
+ * @param event    键盘事件
+ */
+function matchKey(shortcut: string, event: KeyboardEvent): boolean {
+  // 按键本身可能是 `+`
+  const index = shortcut.lastIndexOf('+', shortcut.length - 2)
+  const key = shortcut.slice(index + 1)
+  const modifiers = index < 0 ? [] : shortcut.slice(0, index).split('+').map(x => x.toLowerCase())
+  if (key !== event.code && key.toLowerCase() !== event.key.toLowerCase()) return false
+
+  const mod = modifiers.includes('mod')
+  if (mod ? !(event.ctrlKey || event.metaKey) : event.ctrlKey !== modifiers.includes('ctrl')) return false
+  if (!mod && event.metaKey !== modifiers.includes('meta')) return false
+  if (event.altKey !== modifiers.includes('alt')) return false
+
+  // 符号键的 `key` 已经包含 Shift 的结果，例如 `{`，因此只对字母和命名按键检查 Shift
+  const symbol = key.length === 1 && key.toLowerCase() === key.toUpperCase()
+  return symbol || event.shiftKey === modifiers.includes('shift')
+}
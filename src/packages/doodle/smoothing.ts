@@ -0,0 +1,153 @@
+import { pointToSegment } from './geometry'
+
+/**
+ * 防抖模式
+ *
+ * `none`: 不处理。
+ * `lazy`: 拖拽绳，指针移动超过绳长后笔尖才被拉动，过滤小幅抖动。
+ * `average`: 移动平均，笔尖位于最近若干个点的平均位置。
+ */
+export type StabilizerMode = 'none' | 'lazy' | 'average'
+
+/**
+ * 采样点，与 `TimePoint` 结构一致
+ */
+export interface Sample {
+  x: number
+  y: number
+  time: number
+  pressure: number
+}
+
+/** 拖拽绳的默认长度 */
+const DEFAULT_LAZY_RADIUS = 8
+
+/** 移动平均的默认点数 */
+const DEFAULT_AVERAGE_WINDOW = 4
+
+/**
+ * 防抖器
+ *
+ * 在绘制过程中过滤指针位置，每一笔创建一个实例
+ */
+export class Stabilizer {
+  /** 防抖模式 */
+  private readonly mode: StabilizerMode
+
+  /** 拖拽绳长度 */
+  private readonly radius: number
+
+  /** 移动平均的点数 */
+  private readonly window: number
+
+  /** 拖拽绳的笔尖位置 */
+  private anchor: Sample
+
+  /** 移动平均的最近几个点 */
+  private readonly samples: Sample[]
+
+  /**
+   * 构造防抖器
+   *
+   * @param mode     防抖模式
+   * @param strength 防抖强度，`lazy` 时为绳长，`average` 时为平均的点数，为空时使用默认值
+   * @param start    起点
+   */
+  public constructor(mode: StabilizerMode, strength: number | undefined, start: Sample) {
+    this.mode = mode
+    this.radius = Math.max(strength ?? DEFAULT_LAZY_RADIUS, 0)
+    this.window = Math.max(Math.round(strength ?? DEFAULT_AVERAGE_WINDOW), 1)
+    this.anchor = start
+    this.samples = [start]
+  }
+
+  /**
+   * 输入指针位置
+   *
+   * @param point 指针位置
+   * @return 笔尖位置，笔尖不需要移动时返回空
+   */
+  public next(point: Sample): Sample | undefined {
+    if (this.mode === 'lazy') {
+      const anchor = this.anchor
+      const distance = Math.hypot(point.x - anchor.x, point.y - anchor.y)
+      if (distance <= this.radius) return undefined
+
+      // 沿指针方向拉动笔尖，使两者距离等于绳长
+      const ratio = (distance - this.radius) / distance
+      this.anchor = {
+        x: anchor.x + (point.x - anchor.x) * ratio,
+        y: anchor.y + (point.y - anchor.y) * ratio,
+        time: point.time,
+        pressure: point.pressure
+      }
+      return this.anchor
+    }
+
+    if (this.mode === 'average') {
+      this.samples.push(point)
+      if (this.samples.length > this.window) this.samples.shift()
+      return this.average()
+    }
+    return point
+  }
+
+  /**
+   * 抬笔时让笔尖追上最后的指针位置
+   *
+   * @return 需要补充的点，拖拽绳保持原位
+   */
+  public finish(): Sample[] {
+    if (this.mode !== 'average') return []
+    const result: Sample[] = []
+    while (this.samples.length > 1) {
+      this.samples.shift()
+      result.push(this.average())
+    }
+    return result
+  }
+
+  /** 最近几个点的平均位置，时间使用最后一个点 */
+  private average(): Sample {
+    const samples = this.samples
+    let x = 0, y = 0, pressure = 0
+    for (const sample of samples) {
+      x += sample.x
+      y += sample.y
+      pressure += sample.pressure
+    }
+    const count = samples.length
+    return { x: x / count, y: y / count, time: samples[count - 1].time, pressure: pressure / count }
+  }
+}
+
+/**
+ * 使用 Ramer–Douglas–Peucker 算法简化路径，保留首尾点，删除与简化路径距离小于容差的点
+ *
+ * @param points    路径
+ * @param tolerance 容差
+ * @return 保留的点，为原数组中的元素
+ */
+export function simplifyPath<T extends Sample>(points: T[], tolerance: number): T[] {
+  if (points.length < 3 || tolerance <= 0) return [...points]
+  const keep = new Uint8Array(points.length)
+  keep[0] = keep[points.length - 1] = 1
+
+  // 使用栈代替递归，避免长路径栈溢出
+  const stack: [number, number][] = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!
+    let index = -1, max = tolerance
+    for (let i = start + 1; i < end; i++) {
+      const distance = pointToSegment(points[i], points[start], points[end])
+      if (distance > max) {
+        index = i
+        max = distance
+      }
+    }
+    if (index < 0) continue
+    keep[index] = 1
+    stack.push([start, index], [index, end])
+  }
+  return points.filter((_, i) => keep[i])
+}
@@ -0,0 +1,297 @@
+import { Brush, type BrushBlendMode, type BrushHistory, type BrushPainter } from './brush'
+import { PathRecorder } from './geometry'
+import { DEFAULT_LAYER_ID, type LayerConfigs } from './layer'
+import type { InputImage, PaperHistory } from './paper'
+import { deserializeHistory, isSerializedHistory, type SerializedPaperHistory } from './serializer'
+
+/**
+ * SVG 导出配置
+ */
+export interface SvgExportOptions {
+  /**
+   * 嵌入的底图，为空时不包含底图
+   *
+   * 传入字符串时作为图片地址直接使用，可以在没有 DOM 的环境中使用；
+   * 传入 `InputImage` 时会通过画布转换为 png Data URI，只能在浏览器中使用
+   */
+  image?: InputImage | string
+
+  /**
+   * 元素编号前缀，同一页面内联多个 SVG 时用于避免遮罩编号冲突，默认为 `doodle`
+   */
+  idPrefix?: string
+}
+
+/** 与 CSS `mix-blend-mode` 对应的画笔混合模式 */
+const CSS_BLEND_MODES: BrushBlendMode[] = [
+  'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light',
+  'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]
+
+/** 记录的绘制操作 */
+type SvgElement =
+  | { kind: 'stroke', d: string, width: number }
+  | { kind: 'fill', d: string }
+  | { kind: 'text', text: string, x: number, y: number, angle: number, baseline: string }
+
+/**
+ * 将历史记录导出为 SVG 字符串
+ *
+ * 每一笔通过画笔自身的 `replay` 绘制到路径记录器，因此曲线与画布上完全一致。
+ * 可见图层按顺序导出为分组，橡皮擦笔迹转换为作用于同图层之前笔迹的遮罩
+ *
+ * @param history 历史记录，支持序列化后的格式
+ * @param options 导出配置
+ */
+export function exportSvg(
+  history: PaperHistory | SerializedPaperHistory,
+  options?: SvgExportOptions
+): string {
+  const data = isSerializedHistory(history) ? deserializeHistory(history) : history
+  const { width, height } = data
+  const prefix = options?.idPrefix ?? 'doodle'
+  const defs: string[] = []
+  const body: string[] = []
+
+  const image = options?.image
+  if (image !== undefined) {
+    const href = typeof image === 'string' ? image : imageToDataURL(image, width, height)
+    body.push(`<image x="0" y="0" width="${width}" height="${height}" ` +
+      `preserveAspectRatio="none" xlink:href="${escapeXml(href)}"/>`)
+  }
+
+  const layers = data.layers?.length ? data.layers : [defaultLayer()]
+  for (const layer of layers) {
+    if (!layer.visible) continue
+    const items = data.histories.filter(x => x.valid && (x.layer ?? DEFAULT_LAYER_ID) === layer.id)
+
+    // 遇到橡皮擦时，将之前的内容放入带遮罩的分组，连续的橡皮擦共用一个遮罩
+    let content: string[] = []
+    let erasers: string[] = []
+    const flush = () => {
+      if (erasers.length === 0) return
+      if (content.length > 0) {
+        const id = `${prefix}-mask-${defs.length}`
+        defs.push(`<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" ` +
+          `height="${height}"><rect width="${width}" height="${height}" fill="white"/>` +
+          `${erasers.join('')}</mask>`)
+        content = [`<g mask="url(#${id})">${content.join('')}</g>`]
+      }
+      erasers = []
+    }
+
+    for (const item of items) {
+      if (item.configs.blendMode === 'destination-out') {
+        erasers.push(historyToSvg(item, '#000000'))
+      } else {
+        flush()
+        content.push(historyToSvg(item))
+      }
+    }
+    flush()
+    if (content.length === 0) continue
+
+    let attributes = `opacity="${round(layer.opacity)}"`
+    if (layer.blendMode !== 'normal') attributes += ` style="mix-blend-mode: ${layer.blendMode}"`
+    body.push(`<g ${attributes}>${content.join('')}</g>`)
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    (defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '') +
+    body.join('') +
+    '</svg>'
+}
+
+/**
+ * 将一笔历史记录转换为 SVG 分组
+ *
+ * @param history 历史记录
+ * @param color   覆盖颜色，用于遮罩
+ */
+function historyToSvg(history: BrushHistory, color?: string): string {
+  const configs = history.configs
+  const recorder = new SvgPathRecorder()
+  const painter = Brush.fromConfig(configs) as any as BrushPainter
+  painter.replay(recorder, history)
+
+  const children: string[] = []
+  const elements = recorder.elements
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i]
+    if (element.kind === 'stroke') {
+      // 合并线宽相同的连续线段
+      let d = element.d
+      while (i + 1 < elements.length) {
+        const next = elements[i + 1]
+        if (next.kind !== 'stroke' || next.width !== element.width) break
+        d += next.d
+        i++
+      }
+      const width = element.width === configs.size ? '' : ` stroke-width="${round(element.width)}"`
+      children.push(`<path d="${d}" fill="none"${width}/>`)
+    } else if (element.kind === 'fill') {
+      children.push(`<path d="${element.d}" stroke="none"/>`)
+    } else {
+      const baseline = element.baseline === 'top' ? ' dominant-baseline="text-before-edge"' : ''
+      const x = round(element.x), y = round(element.y)
+      const transform = element.angle === 0
+        ? ''
+        : ` transform="rotate(${round(element.angle * 180 / Math.PI)} ${x} ${y})"`
+      children.push(`<text x="${x}" y="${y}" stroke="none"` +
+        ` xml:space="preserve"${baseline}${transform}>${escapeXml(element.text)}</text>`)
+    }
+  }
+
+  const fill = color ?? '#' + configs.color.toString(16).padStart(6, '0')
+  let attributes = `opacity="${round(configs.alpha)}" stroke="${fill}" fill="${fill}" ` +
+    `stroke-width="${round(configs.size)}" stroke-linecap="${configs.cap}" ` +
+    `stroke-linejoin="${configs.join}"`
+  if (history.text !== undefined) {
+    attributes += ` font-size="${round(configs.size)}" ` +
+      `font-family="${escapeXml(configs.font ?? 'sans-serif')}"`
+  }
+  if (!color && CSS_BLEND_MODES.includes(configs.blendMode)) {
+    attributes += ` style="mix-blend-mode: ${configs.blendMode}"`
+  }
+  return `<g ${attributes}>${children.join('')}</g>`
+}
+
+/**
+ * 路径记录器
+ *
+ * 实现画笔绘制时用到的部分 `CanvasRenderingContext2D` 接口，将路径转换为 SVG 路径数据
+ */
+class SvgPathRecorder extends PathRecorder {
+  /** 记录的绘制操作 */
+  public readonly elements: SvgElement[] = []
+
+  /** 当前路径 */
+  private path: string = ''
+
+  public beginPath(): void {
+    this.path = ''
+  }
+
+  public closePath(): void {
+    this.path += 'Z'
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.path += `M${this.format(x, y)}`
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.path += `L${this.format(x, y)}`
+  }
+
+  public quadraticCurveTo(cx: number, cy: number, x: number, y: number): void {
+    this.path += `Q${this.format(cx, cy)} ${this.format(x, y)}`
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.moveTo(x, y)
+    this.lineTo(x + width, y)
+    this.lineTo(x + width, y + height)
+    this.lineTo(x, y + height)
+    this.closePath()
+  }
+
+  public arc(x: number, y: number, radius: number, start: number, end: number, anticlockwise?: boolean): void {
+    this.ellipse(x, y, radius, radius, 0, start, end, anticlockwise)
+  }
+
+  public ellipse(
+    x: number,
+    y: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    start: number,
+    end: number,
+    anticlockwise: boolean = false
+  ): void {
+    const point = (angle: number) => {
+      const cos = Math.cos(rotation), sin = Math.sin(rotation)
+      const px = rx * Math.cos(angle), py = ry * Math.sin(angle)
+      return this.format(x + px * cos - py * sin, y + px * sin + py * cos)
+    }
+    const degrees = round((rotation + this.angle) * 180 / Math.PI)
+    const sweep = anticlockwise ? 0 : 1
+    let delta = anticlockwise ? start - end : end - start
+
+    // 完整的椭圆拆分为两段圆弧
+    if (delta >= Math.PI * 2) {
+      const middle = start + (anticlockwise ? -Math.PI : Math.PI)
+      this.path += `M${point(start)}` +
+        `A${round(rx)} ${round(ry)} ${degrees} 0 ${sweep} ${point(middle)}` +
+        `A${round(rx)} ${round(ry)} ${degrees} 0 ${sweep} ${point(start)}Z`
+      return
+    }
+
+    delta = ((delta % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)
+    const large = delta > Math.PI ? 1 : 0
+    this.path += `${this.path ? 'L' : 'M'}${point(start)}` +
+      `A${round(rx)} ${round(ry)} ${degrees} ${large} ${sweep} ${point(end)}`
+  }
+
+  public stroke(): void {
+    if (this.path) this.elements.push({ kind: 'stroke', d: this.path, width: this.lineWidth })
+  }
+
+  public fill(): void {
+    if (this.path) this.elements.push({ kind: 'fill', d: this.path })
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    const point = this.map(x, y)
+    this.elements.push({ kind: 'text', text, ...point, angle: this.angle, baseline: this.textBaseline })
+  }
+
+  /** 将绘制坐标转换为路径中的坐标 */
+  private format(x: number, y: number): string {
+    const point = this.map(x, y)
+    return `${round(point.x)} ${round(point.y)}`
+  }
+}
+
+/** 默认图层配置 */
+function defaultLayer(): LayerConfigs {
+  return { id: DEFAULT_LAYER_ID, name: 'Default', visible: true, opacity: 1, blendMode: 'normal' }
+}
+
+/**
+ * 将底图转换为 png Data URI
+ *
+ * @param image  底图
+ * @param width  画布宽度
+ * @param height 画布高度
+ */
+function imageToDataURL(image: InputImage, width: number, height: number): string {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  canvas.getContext('2d')!.drawImage(image, 0, 0, width, height)
+  return canvas.toDataURL('image/png')
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => {
+    switch (char) {
+      case '&':
+        return '&amp;'
+      case '<':
+        return '&lt;'
+      case '>':
+        return '&gt;'
+      case '"':
+        return '&quot;'
+      default:
+        return '&apos;'
+    }
+  })
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
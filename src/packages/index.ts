@@ -1,5 +1,23 @@
 import type { App } from 'vue'
 import DoodlePaper from './doodle'
+import type { DoodlePaperController } from './doodle/DoodlePaper.vue'
+import {
+  Brush,
+  type BrushConfigs,
+  type BrushFactory,
+  BrushHistory,
+  type BrushPainter,
+  BrushType,
+  isBrushRegistered,
+  PathBrush,
+  registerBrush,
+  type ReplayContext,
+  TimePoint,
+  unregisterBrush
+} from './doodle/brush'
+import { Paper, type PaperEventMap, type PaperHistory, type PaperOptions } from './doodle/paper'
+import { deserializeHistory, serializeHistory, type SerializedPaperHistory } from './doodle/serializer'
+import { exportSvg } from './doodle/svg'
 
 // 所有组件列表
 const components = [
@@ -13,7 +31,31 @@ const install = (app: App): void => {
 }
 
 export {
-  DoodlePaper
+  DoodlePaper,
+  Paper,
+  serializeHistory,
+  deserializeHistory,
+  exportSvg,
+  Brush,
+  BrushType,
+  BrushHistory,
+  TimePoint,
+  PathBrush,
+  registerBrush,
+  unregisterBrush,
+  isBrushRegistered
+}
+
+export type {
+  DoodlePaperController,
+  PaperHistory,
+  PaperOptions,
+  PaperEventMap,
+  SerializedPaperHistory,
+  BrushConfigs,
+  BrushFactory,
+  BrushPainter,
+  ReplayContext
 }
 
 const DoodlePaperVue = { install }